@@ -1,25 +1,166 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { 
-  Upload, Layers, Play, Zap, Info, MessageSquare, 
-  Maximize, Minimize, Download, RefreshCcw, Copy
+  Upload, Layers, Zap, Info, MessageSquare, 
+  Maximize, Minimize, Download, Brush, SlidersHorizontal, ImagePlus, FileArchive,
+  Save, FolderOpen, Link2, Route
 } from 'lucide-react';
-import { processPyramidBlending, loadImageToCanvas, createGradientMask } from './services/imageProcessor';
+import MaskEditor from './components/MaskEditor';
+import MaskSpecControls from './components/MaskSpecControls';
+import MaskImageControls from './components/MaskImageControls';
+import LevelCurveEditor from './components/LevelCurveEditor';
+import ComparisonView, { ComparisonItem } from './components/ComparisonView';
+import SourceList from './components/SourceList';
+import ResultViewer from './components/ResultViewer';
+import PyramidInspector from './components/PyramidInspector';
+import MetricsPanel from './components/MetricsPanel';
+import SeamControls, { SeamView } from './components/SeamControls';
+import AlignmentControls, { AlignView } from './components/AlignmentControls';
+import PhotometricControls from './components/PhotometricControls';
+import { loadImageToCanvas, createMaskFromSpec, canvasToBlob, canvasToRaster, rasterToCanvas, fitCanvas } from './services/imageProcessor';
+import { DEFAULT_MASK_IMAGE_OPTIONS, DEFAULT_MASK_SPEC, maskFromImage } from './services/maskGenerator';
+import { DEFAULT_POISSON_CONFIG } from './services/poissonBlend';
+import { DEFAULT_SEAM_OPTIONS } from './services/seamFinder';
+import { compensateImageData, DEFAULT_PHOTOMETRIC, PhotometricResult } from './services/photometric';
+import { DEFAULT_ALIGNMENT, fillUncovered, overlapFraction, warpRaster } from './services/alignment';
+import { COMPARISON_METHODS } from './services/blendMethods';
+import { BlendSnapshot, buildExportBundle } from './services/exportBundle';
+import { sourceFromFile, sourceFromUrl, storedSource } from './services/imageSource';
+import {
+  decodeShareHash, encodeShareHash, loadAutosave, saveAutosave, sessionFromJson, sessionToJson
+} from './services/sessionStore';
+import {
+  blendFullResInWorker, blendInWorker, blendManyFullResInWorker, blendManyInWorker, estimateAlignmentInWorker,
+  findSeamInWorker, isAbortError,
+} from './services/blendService';
+import { labelMapToWeights, stripeWeight, weightShare } from './services/multiBlend';
+import { FloatImage } from './services/pyramidCore';
 import { streamGeminiResponse } from './services/geminiService';
-import { ChatMessage } from './types';
+import {
+  AlignmentOptions, BlendMethod, BlendProgress, BlendSession, BlendSource, BlendStage, ChatMessage, ColorSpace, FitMode, ImageSource,
+  MaskImageOptions, MaskMode, MaskSpec, DecompositionName, PhotometricOptions, PoissonConfig, PoissonSolver, PoissonVariant, ProcessingConfig, PyramidBackendName, RasterImage,
+  SeamOptions, SessionSettings
+} from './types';
 
 // Default images (Placeholders)
 const DEFAULT_IMG_A = 'https://picsum.photos/id/1080/800/800'; // Fruit (Strawberry)
 const DEFAULT_IMG_B = 'https://picsum.photos/id/225/800/800'; // Tea/Texture
 
+const AUTOSAVE_DELAY_MS = 1000;
+const LIVE_DELAY_MS = 250; // quiet time after the last edit before a live re-blend
+
+const STAGE_LABELS: Record<BlendStage, string> = {
+  gaussian: '构建高斯金字塔',
+  laplacian: '构建拉普拉斯金字塔',
+  blend: '融合频段',
+  reconstruct: '重构图像',
+  solve: '泊松求解',
+};
+
+const FIT_MODES: { value: FitMode; label: string }[] = [
+  { value: 'cover', label: '裁剪填充' },
+  { value: 'contain', label: '完整包含' },
+  { value: 'stretch', label: '拉伸' },
+];
+
+const COLOR_SPACES: { value: ColorSpace; label: string }[] = [
+  { value: 'srgb', label: 'sRGB' },
+  { value: 'linear', label: '线性 RGB' },
+  { value: 'lab', label: 'CIELAB' },
+  { value: 'ycbcr', label: 'YCbCr' },
+];
+
+const METHOD_LABELS: Record<BlendMethod, string> = {
+  pyramid: '多频段融合',
+  poisson: '泊松融合',
+  'hard-cut': '硬切割',
+  feather: '羽化 Alpha',
+  'two-band': '双频段 (Brown & Lowe)',
+};
+
+// Methods selectable as the main blend; the rest only appear in the comparison view
+const BLEND_METHODS: { value: BlendMethod; label: string }[] = [
+  { value: 'pyramid', label: METHOD_LABELS.pyramid },
+  { value: 'poisson', label: METHOD_LABELS.poisson },
+];
+
+const DECOMPOSITIONS: { value: DecompositionName; label: string }[] = [
+  { value: 'laplacian', label: '拉普拉斯' },
+  { value: 'haar', label: 'Haar' },
+  { value: 'cdf97', label: 'CDF 9/7' },
+  { value: 'dog', label: 'DoG 栈' },
+];
+
+const BACKENDS: { value: PyramidBackendName; label: string }[] = [
+  { value: 'cpu', label: 'CPU' },
+  { value: 'webgl2', label: 'WebGL2 GPU' },
+];
+
+const POISSON_VARIANTS: { value: PoissonVariant; label: string }[] = [
+  { value: 'normal', label: '普通克隆' },
+  { value: 'mixed', label: '混合梯度' },
+];
+
+const POISSON_SOLVERS: { value: PoissonSolver; label: string }[] = [
+  { value: 'jacobi', label: 'Jacobi' },
+  { value: 'gauss-seidel', label: 'Gauss–Seidel' },
+  { value: 'multigrid', label: '多重网格' },
+];
+
+const MASK_MODES: { value: MaskMode; label: string; icon: React.FC<{ className?: string }> }[] = [
+  { value: 'parametric', label: '参数化', icon: SlidersHorizontal },
+  { value: 'painted', label: '手绘', icon: Brush },
+  { value: 'image', label: '图像', icon: ImagePlus },
+  { value: 'seam', label: '接缝', icon: Route },
+];
+
 const App: React.FC = () => {
   // State
-  const [imgA, setImgA] = useState<string>(DEFAULT_IMG_A);
-  const [imgB, setImgB] = useState<string>(DEFAULT_IMG_B);
+  const [sources, setSources] = useState<BlendSource[]>(() => [
+    { image: sourceFromUrl(DEFAULT_IMG_A), weight: null },
+    { image: sourceFromUrl(DEFAULT_IMG_B), weight: null },
+  ]);
+  const [labelMap, setLabelMap] = useState<ImageSource | null>(null); // N-image mode only
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<BlendProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [exportProgress, setExportProgress] = useState<BlendProgress | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const exportAbortRef = useRef<AbortController | null>(null);
   const [resultCanvas, setResultCanvas] = useState<HTMLCanvasElement | null>(null);
-  const [pyramidLevels, setPyramidLevels] = useState<HTMLCanvasElement[]>([]);
+  // Result together with the exact inputs and settings that produced it
+  const [lastBlend, setLastBlend] = useState<BlendSnapshot | null>(null);
+  const [isBundling, setIsBundling] = useState(false);
   const [depth, setDepth] = useState(4);
+  const [fitMode, setFitMode] = useState<FitMode>('cover');
+  const [maskSigmaCurve, setMaskSigmaCurve] = useState<number[]>([]);
+  const [bandGainCurve, setBandGainCurve] = useState<number[]>([]);
+  const [colorSpace, setColorSpace] = useState<ColorSpace>('srgb');
+  const [chromaDepth, setChromaDepth] = useState<number | null>(null); // null: same as depth
+  const [blendMethod, setBlendMethod] = useState<BlendMethod>('pyramid');
+  const [poissonConfig, setPoissonConfig] = useState<PoissonConfig>(DEFAULT_POISSON_CONFIG);
+  const [backend, setBackend] = useState<PyramidBackendName>('cpu');
+  const [decomposition, setDecomposition] = useState<DecompositionName>('laplacian');
+  const [comparison, setComparison] = useState<{ title: string; items: ComparisonItem[] } | null>(null);
+  const [maskMode, setMaskMode] = useState<MaskMode>('parametric');
+  const [maskSpec, setMaskSpec] = useState<MaskSpec>(DEFAULT_MASK_SPEC);
+  const [aspectA, setAspectA] = useState(1);
+  const paintedMaskRef = useRef<HTMLCanvasElement | null>(null);
+  const [maskVersion, setMaskVersion] = useState(0);
+  const [maskImage, setMaskImage] = useState<ImageSource | null>(null);
+  const [paintedMaskInit, setPaintedMaskInit] = useState<string | null>(null); // restored painted mask
+  const [sessionReady, setSessionReady] = useState(false);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [maskImageOptions, setMaskImageOptions] = useState<MaskImageOptions>(DEFAULT_MASK_IMAGE_OPTIONS);
+  const [seamOptions, setSeamOptions] = useState<SeamOptions>(DEFAULT_SEAM_OPTIONS);
+  const [seamView, setSeamView] = useState<SeamView | null>(null);
+  const [alignment, setAlignment] = useState<AlignmentOptions>(DEFAULT_ALIGNMENT);
+  const [alignView, setAlignView] = useState<AlignView | null>(null);
+  const [photometric, setPhotometric] = useState<PhotometricOptions>(DEFAULT_PHOTOMETRIC);
+  const [photometricResult, setPhotometricResult] = useState<PhotometricResult | null>(null);
   const [showPyramid, setShowPyramid] = useState(false);
+  const [liveUpdate, setLiveUpdate] = useState(true);
+  // Preview-size decodes by URL, reused across re-blends
+  const previewCacheRef = useRef(new Map<string, HTMLCanvasElement>());
   
   // Chat State
   const [chatOpen, setChatOpen] = useState(false);
@@ -30,51 +171,408 @@ const App: React.FC = () => {
   const [isTyping, setIsTyping] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
-  // Initial Process
+  // One control point per pyramid level (depth + 1 bands); levels beyond the stored curve use the defaults
+  const maskSigmas = Array.from({ length: depth + 1 }, (_, i) => maskSigmaCurve[i] ?? 0);
+  const bandGains = Array.from({ length: depth + 1 }, (_, i) => bandGainCurve[i] ?? 1);
+  const separateChroma = colorSpace === 'lab' || colorSpace === 'ycbcr';
+  const blendConfig: Omit<ProcessingConfig, 'levels'> = {
+    maskSigmas,
+    bandGains,
+    colorSpace,
+    chromaLevels: separateChroma && chromaDepth !== null ? chromaDepth : undefined,
+    method: blendMethod,
+    poisson: poissonConfig,
+    backend,
+    decomposition,
+  };
+
+  const imgA = sources[0].image;
+  const imgB = sources[1].image;
+  const multiSource = sources.length > 2;
+
+  const settings: SessionSettings = {
+    depth, fitMode, maskSigmaCurve, bandGainCurve, colorSpace, chromaDepth,
+    blendMethod, poissonConfig, maskMode, maskSpec, maskImageOptions, seamOptions, alignment, photometric, backend,
+    decomposition,
+  };
+
+  // Fields missing from an older or hand-edited session keep their current value
+  const applySettings = (next: Partial<SessionSettings>) => {
+    if (next.depth !== undefined) setDepth(next.depth);
+    if (next.fitMode) setFitMode(next.fitMode);
+    if (next.maskSigmaCurve) setMaskSigmaCurve(next.maskSigmaCurve);
+    if (next.bandGainCurve) setBandGainCurve(next.bandGainCurve);
+    if (next.colorSpace) setColorSpace(next.colorSpace);
+    if (next.chromaDepth !== undefined) setChromaDepth(next.chromaDepth);
+    if (next.blendMethod) setBlendMethod(next.blendMethod);
+    if (next.poissonConfig) setPoissonConfig({ ...DEFAULT_POISSON_CONFIG, ...next.poissonConfig });
+    if (next.maskMode) setMaskMode(next.maskMode);
+    if (next.maskSpec) setMaskSpec({ ...DEFAULT_MASK_SPEC, ...next.maskSpec });
+    if (next.maskImageOptions) setMaskImageOptions({ ...DEFAULT_MASK_IMAGE_OPTIONS, ...next.maskImageOptions });
+    if (next.seamOptions) setSeamOptions({ ...DEFAULT_SEAM_OPTIONS, ...next.seamOptions });
+    if (next.alignment) setAlignment({ ...DEFAULT_ALIGNMENT, ...next.alignment });
+    if (next.photometric) setPhotometric({ ...DEFAULT_PHOTOMETRIC, ...next.photometric });
+    if (next.backend) setBackend(next.backend);
+    if (next.decomposition) setDecomposition(next.decomposition);
+  };
+
+  const applySession = (session: BlendSession) => {
+    setSources(session.sources);
+    setLabelMap(session.labelMap);
+    setMaskImage(session.maskImage);
+    setPaintedMaskInit(session.paintedMask?.url ?? null);
+    applySettings(session.settings);
+    if (session.chat.length > 0) setMessages(session.chat);
+  };
+
+  const buildSession = async (): Promise<BlendSession> => ({
+    version: 2,
+    sources,
+    labelMap,
+    maskImage,
+    paintedMask: paintedMaskRef.current
+      ? storedSource(await canvasToBlob(paintedMaskRef.current), 'painted-mask.png')
+      : null,
+    settings,
+    chat: messages,
+  });
+
+  // Painted-mask edits only matter while the painted mask is in use
+  const activeMaskVersion = maskMode === 'painted' ? maskVersion : 0;
+
+  // Drop any in-flight blend as soon as its inputs are stale
+  useEffect(() => {
+    abortRef.current?.abort();
+  }, [sources, labelMap, depth, fitMode, maskMode, maskSpec, activeMaskVersion, maskImage, maskImageOptions, seamOptions, alignment, photometric, maskSigmaCurve, bandGainCurve, colorSpace, chromaDepth, blendMethod, poissonConfig, backend, decomposition]);
+
+  // Restore on load: a shared link wins over the autosaved project
+  useEffect(() => {
+    const restore = async () => {
+      const shared = decodeShareHash(window.location.hash);
+      if (shared) {
+        if (shared.sources) {
+          // Uploaded sources were left out of the link; keep at least a pair
+          const urls = shared.sources.filter((url): url is string => !!url);
+          const defaults = [DEFAULT_IMG_A, DEFAULT_IMG_B];
+          while (urls.length < 2) urls.push(defaults[urls.length]);
+          setSources(urls.map(url => ({ image: sourceFromUrl(url), weight: null })));
+        }
+        applySettings(shared.settings);
+        // Later reloads should pick up the user's own edits from the autosave
+        history.replaceState(null, '', window.location.pathname + window.location.search);
+        return;
+      }
+      const saved = await loadAutosave();
+      if (saved) applySession(saved);
+    };
+    restore().catch(console.error).finally(() => setSessionReady(true));
+  }, []);
+
+  // Initial Process, once the restored state has been rendered (live mode does this itself)
   useEffect(() => {
-    handleProcess();
-  }, []); // Run once on mount
+    if (sessionReady && !liveUpdate) handleProcess();
+  }, [sessionReady]);
+
+  // Live mode: re-blend shortly after the last edit. Only the mask side is rebuilt when the
+  // sources are unchanged, since the worker keeps the A/B pyramids cached
+  useEffect(() => {
+    if (!sessionReady || !liveUpdate) return;
+    const timer = setTimeout(() => handleProcess(), LIVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionReady, liveUpdate, sources, labelMap, depth, fitMode, maskMode, maskSpec, activeMaskVersion, maskImage, maskImageOptions, seamOptions, alignment, photometric, maskSigmaCurve, bandGainCurve, colorSpace, chromaDepth, blendMethod, poissonConfig, backend, decomposition]);
+
+  // Forget decodes of images that are no longer in use
+  useEffect(() => {
+    const inUse = new Set([...sources.flatMap(s => [s.image.url, s.weight?.url]), labelMap?.url, maskImage?.url]);
+    for (const url of previewCacheRef.current.keys()) {
+      if (!inUse.has(url)) previewCacheRef.current.delete(url);
+    }
+  }, [sources, labelMap, maskImage]);
+
+  // Autosave shortly after the last change
+  useEffect(() => {
+    if (!sessionReady) return;
+    const timer = setTimeout(() => {
+      buildSession().then(saveAutosave).catch(console.error);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionReady, sources, labelMap, maskImage, maskVersion, messages, JSON.stringify(settings)]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, chatOpen]);
 
-  const handleProcess = async () => {
+  // Preview-size decodes are reused; other sizes are decoded fresh every time
+  const loadSource = async (url: string, maxDimension?: number): Promise<HTMLCanvasElement> => {
+    if (maxDimension !== undefined) return loadImageToCanvas(url, maxDimension);
+    const cache = previewCacheRef.current;
+    let canvas = cache.get(url);
+    if (!canvas) {
+      canvas = await loadImageToCanvas(url);
+      cache.set(url, canvas);
+    }
+    return canvas;
+  };
+
+  // Load both preview-size sources, fit B onto A's canvas so the result keeps A's size and
+  // aspect ratio, then register B onto A and match its exposure. `show` publishes the
+  // alignment, exposure and seam views; exports read the same state without touching the UI.
+  const prepareInputs = async (signal: AbortSignal, show = true) => {
+    const cA = await loadSource(imgA.url);
+    const cB = await loadSource(imgB.url);
+    const w = cA.width;
+    const h = cA.height;
+    if (show) setAspectA(w / h);
+
+    const a = canvasToRaster(cA);
+    const { b: aligned, registration } = await alignSource(a, canvasToRaster(fitCanvas(cB, w, h, fitMode)), signal, show);
+    // In seam mode this is the parametric prior: the search region and the transition band
+    const baseMask = await prepareMask(w, h);
+    const { b, compensation } = compensateSource(a, aligned, baseMask, show);
+    const seam = maskMode === 'seam' ? await prepareSeamMask(a, b, baseMask, signal, show) : null;
+    const mask = seam ?? baseMask;
+    return { a, b, mask: registration ? fillUncovered(mask, b) : mask, seam, registration, compensation };
+  };
+
+  // Native-resolution inputs for export. The registration is in 0-1 units, the exposure match
+  // is a table over the 256 values, and the seam is searched on the preview and stretched like
+  // the painted mask, so all three come from the preview. The worker warps and matches B tile
+  // by tile, so no full-size float copy is made here.
+  const prepareFullResInputs = async (signal: AbortSignal) => {
+    const preview = await prepareInputs(signal, false);
+    const cA = await loadSource(imgA.url, Infinity);
+    const cB = await loadSource(imgB.url, Infinity);
+    const w = cA.width;
+    const h = cA.height;
+    const mask = preview.seam
+      ? canvasToRaster(fitCanvas(rasterToCanvas(preview.seam), w, h, 'stretch'))
+      : await prepareMask(w, h, Infinity);
+    // B stays unregistered: the worker warps it tile by tile
+    return {
+      a: canvasToRaster(cA),
+      b: canvasToRaster(fitCanvas(cB, w, h, fitMode)),
+      mask,
+      homography: preview.registration?.homography,
+      compensation: preview.compensation ?? undefined,
+    };
+  };
+
+  // Warp B into A's frame. The estimate runs in the worker, which keeps it while the sources
+  // stay the same; the transform is in 0-1 units, so larger renders reuse it instead of
+  // matching features at full size
+  const alignSource = async (a: RasterImage, b: RasterImage, signal: AbortSignal, show: boolean) => {
+    if (alignment.mode === 'none') return { b, registration: null };
+    const registration = await estimateAlignmentInWorker(a, b, alignment, { signal });
+    const warped = warpRaster(b, registration.homography, a.width, a.height);
+    if (show) setAlignView({ a, b: warped, result: registration, overlap: overlapFraction(warped) });
+    return { b: warped, registration };
+  };
+
+  // Map B's colours onto A's, from statistics over their overlap (or the mask's transition band)
+  const compensateSource = (a: RasterImage, b: RasterImage, mask: RasterImage, show: boolean) => {
+    if (photometric.mode === 'none') return { b, compensation: null };
+    const { image, result } = compensateImageData(a, b, mask, photometric);
+    if (show) setPhotometricResult(result);
+    return { b: image, compensation: result };
+  };
+
+  // The seam is searched at preview resolution (a graph cut grows quickly with the pixel
+  // count), in the worker, which reuses its last search while the inputs stay the same.
+  // The parametric prior bounds the search: the seam stays inside its transition band.
+  const prepareSeamMask = async (a: RasterImage, b: RasterImage, prior: RasterImage, signal: AbortSignal, show: boolean) => {
+    const { mask, cost } = await findSeamInWorker(a, b, prior, seamOptions, { signal });
+    if (show) setSeamView({ a, b, mask, cost });
+    return mask;
+  };
+
+  // Masks are authored against image A, so every source is stretched onto A's canvas
+  const prepareMask = async (w: number, h: number, maxDimension?: number) => {
+    if (maskMode === 'painted' && paintedMaskRef.current) {
+      // The painted mask lives at preview resolution; scale it to whatever size A was loaded at
+      return canvasToRaster(fitCanvas(paintedMaskRef.current, w, h, 'stretch'));
+    }
+    if (maskMode === 'image' && maskImage) {
+      const cM = await loadSource(maskImage.url, maxDimension);
+      return maskFromImage(canvasToRaster(fitCanvas(cM, w, h, 'stretch')), maskImageOptions);
+    }
+    return canvasToRaster(createMaskFromSpec(w, h, maskSpec));
+  };
+
+  // N-image mode: every source fitted onto the first one's canvas, each with a weight map
+  // (label map, uploaded weight, or an equal vertical strip)
+  const prepareMultiInputs = async (maxDimension?: number) => {
+    const first = await loadSource(sources[0].image.url, maxDimension);
+    const w = first.width;
+    const h = first.height;
+    setAspectA(w / h);
+    const images = [canvasToRaster(first)];
+    for (const { image } of sources.slice(1)) {
+      images.push(canvasToRaster(fitCanvas(await loadSource(image.url, maxDimension), w, h, fitMode)));
+    }
+
+    const loadGrey = async (src: ImageSource) =>
+      canvasToRaster(fitCanvas(await loadSource(src.url, maxDimension), w, h, 'stretch'));
+    let weights;
+    if (labelMap) {
+      // Interpolating labels would invent the ones in between: decode at native size, then
+      // pick the nearest pixel
+      const labels = canvasToRaster(fitCanvas(await loadImageToCanvas(labelMap.url, Infinity), w, h, 'stretch', false));
+      weights = labelMapToWeights(FloatImage.fromImageData(labels), sources.length).map(m => m.toImageData());
+    } else {
+      weights = [];
+      for (const [i, { weight }] of sources.entries()) {
+        weights.push(weight
+          ? maskFromImage(await loadGrey(weight), DEFAULT_MASK_IMAGE_OPTIONS)
+          : stripeWeight(w, h, i, sources.length).toImageData());
+      }
+    }
+    return { images, weights };
+  };
+
+  const multiBlendConfig = { colorSpace, chromaLevels: blendConfig.chromaLevels, decomposition, maskSigmas, bandGains };
+
+  // Run a preview job on the shared controller: starting one cancels the previous,
+  // and input changes cancel it through the effect above
+  const runPreviewJob = async (job: (signal: AbortSignal) => Promise<void>) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
+    setProgress(null);
     try {
-      const cA = await loadImageToCanvas(imgA);
-      const cB = await loadImageToCanvas(imgB);
-      
-      // Ensure sizes match for the demo (simplification)
-      const w = Math.min(cA.width, cB.width);
-      const h = Math.min(cA.height, cB.height);
-      
-      const resizedA = document.createElement('canvas'); 
-      resizedA.width = w; resizedA.height = h;
-      resizedA.getContext('2d')?.drawImage(cA, 0, 0, w, h);
-
-      const resizedB = document.createElement('canvas');
-      resizedB.width = w; resizedB.height = h;
-      resizedB.getContext('2d')?.drawImage(cB, 0, 0, w, h);
-      
-      const mask = createGradientMask(w, h, 'horizontal');
-      
-      const output = await processPyramidBlending(resizedA, resizedB, mask, depth);
-      setResultCanvas(output.result);
-      setPyramidLevels(output.laplacians);
+      await job(controller.signal);
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
       alert("处理图像时出错，请尝试更换其他图片。");
     } finally {
-      setIsProcessing(false);
+      // A newer job owns the spinner state once it has replaced us
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsProcessing(false);
+      }
     }
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, setImg: (s: string) => void) => {
+  const handleProcess = () => runPreviewJob(async (signal) => {
+    if (multiSource) {
+      const { images, weights } = await prepareMultiInputs();
+      const output = await blendManyInWorker(images, weights, depth, { ...multiBlendConfig, signal, onProgress: setProgress });
+      setResultCanvas(rasterToCanvas(output.result));
+      // The viewer compares against the first two sources and the first source's normalized weight
+      setLastBlend({
+        a: images[0], b: images[1], mask: weightShare(weights, 0), output,
+        levels: depth,
+        config: { ...multiBlendConfig, method: 'pyramid' },
+        fitMode,
+        maskMode,
+        sources: { a: imgA.url, b: imgB.url },
+      });
+      return;
+    }
+    const { a, b, mask, registration, compensation } = await prepareInputs(signal);
+    const output = await blendInWorker(a, b, mask, depth, {
+      ...blendConfig,
+      signal,
+      onProgress: setProgress,
+      // Pyramid previews are short and reuse the worker's cache, so a superseded one is left to finish
+      keepWorker: blendMethod === 'pyramid',
+    });
+    setResultCanvas(rasterToCanvas(output.result));
+    setLastBlend({
+      a, b, mask, output,
+      levels: depth,
+      config: blendConfig,
+      fitMode,
+      maskMode,
+      maskSpec: maskMode === 'parametric' || maskMode === 'seam' ? maskSpec : undefined,
+      maskImageOptions: maskMode === 'image' ? maskImageOptions : undefined,
+      seamOptions: maskMode === 'seam' ? seamOptions : undefined,
+      alignment: registration ?? undefined,
+      photometric: compensation ?? undefined,
+      sources: { a: imgA.url, b: imgB.url },
+    });
+  });
+
+  // Same inputs blended once per variant, for side-by-side seam comparison
+  const runComparison = (title: string, variants: { id: string; label: string; config: Omit<ProcessingConfig, 'levels'> }[]) =>
+    runPreviewJob(async (signal) => {
+      const { a, b, mask } = await prepareInputs(signal);
+      const items: ComparisonItem[] = [];
+      for (const { id, label, config } of variants) {
+        const output = await blendInWorker(a, b, mask, depth, { ...config, signal, onProgress: setProgress });
+        items.push({ id, label, canvas: rasterToCanvas(output.result) });
+      }
+      setComparison({ title, items });
+    });
+
+  const handleCompareColorSpaces = () => runComparison('色彩空间对比', COLOR_SPACES.map(({ value, label }) => ({
+    id: value,
+    label,
+    config: { ...blendConfig, method: 'pyramid', colorSpace: value },
+  })));
+
+  const handleCompareDecompositions = () => runComparison('多尺度分解对比', DECOMPOSITIONS.map(({ value, label }) => ({
+    id: value,
+    label,
+    config: { ...blendConfig, method: 'pyramid', decomposition: value },
+  })));
+
+  const handleCompareMethods = () => runComparison('融合方法对比', COMPARISON_METHODS.map(method => ({
+    id: method,
+    label: METHOD_LABELS[method],
+    config: { ...blendConfig, method },
+  })));
+
+  const handleMaskChange = (mask: HTMLCanvasElement) => {
+    paintedMaskRef.current = mask;
+    setMaskVersion(v => v + 1);
+  };
+
+  // A new first source resets the painted mask, which is authored against it
+  const handleSourcesChange = (next: BlendSource[]) => {
+    if (next[0].image.id !== imgA.id) setPaintedMaskInit(null);
+    setSources(next);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, setImg: (src: ImageSource) => void) => {
     const file = e.target.files?.[0];
     if (file) {
-      const url = URL.createObjectURL(file);
-      setImg(url);
+      setImg(sourceFromFile(file));
+    }
+  };
+
+  const saveProjectFile = async () => {
+    try {
+      const json = await sessionToJson(await buildSession());
+      downloadBlob(new Blob([json], { type: 'application/json' }), 'blend-project.json');
+    } catch (e) {
+      console.error(e);
+      alert("保存项目时出错。");
+    }
+  };
+
+  const openProjectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-opening the same file
+    if (!file) return;
+    try {
+      applySession(await sessionFromJson(await file.text()));
+    } catch (err) {
+      console.error(err);
+      alert("无法读取项目文件。");
+    }
+  };
+
+  const copyShareLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${encodeShareHash(settings, sources)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      alert(sources.some(({ image }) => image.blob)
+        ? "链接已复制。上传的图像无法放入链接，对方将看到默认图像。"
+        : "分享链接已复制到剪贴板。");
+    } catch {
+      window.prompt("复制分享链接：", url);
     }
   };
   
@@ -110,12 +608,78 @@ const App: React.FC = () => {
     }
   };
 
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = filename;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const downloadCanvas = (canvas: HTMLCanvasElement, filename: string) => {
+    canvas.toBlob((blob) => {
+      if (blob) downloadBlob(blob, filename);
+    }, 'image/png');
+  };
+
   const downloadResult = () => {
     if (resultCanvas) {
-      const link = document.createElement('a');
-      link.download = 'blended-result.png';
-      link.href = resultCanvas.toDataURL();
-      link.click();
+      downloadCanvas(resultCanvas, 'blended-result.png');
+    }
+  };
+
+  // Every pyramid stage of the current preview, plus a manifest, as one ZIP
+  const exportBundle = async () => {
+    if (!lastBlend || isBundling) return;
+    setIsBundling(true);
+    try {
+      downloadBlob(await buildExportBundle(lastBlend), `blend-pyramid-L${lastBlend.levels}.zip`);
+    } catch (e) {
+      console.error(e);
+      alert("打包导出时出错。");
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
+  // Re-run the blend on the native-resolution sources in tiles; clicking again cancels
+  const exportFullResolution = async () => {
+    if (exportAbortRef.current) {
+      exportAbortRef.current.abort();
+      return;
+    }
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setIsExporting(true);
+    setExportProgress(null);
+    try {
+      let full;
+      if (multiSource) {
+        const { images, weights } = await prepareMultiInputs(Infinity);
+        full = await blendManyFullResInWorker(images, weights, depth, {
+          ...multiBlendConfig,
+          signal: controller.signal,
+          onProgress: setExportProgress,
+        });
+      } else {
+        const { a, b, mask, homography, compensation } = await prepareFullResInputs(controller.signal);
+        full = await blendFullResInWorker(a, b, mask, depth, {
+          ...blendConfig,
+          homography,
+          compensation,
+          signal: controller.signal,
+          onProgress: setExportProgress,
+        });
+      }
+      downloadCanvas(rasterToCanvas(full), `blended-result-${full.width}x${full.height}.png`);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error(e);
+      alert("导出原始分辨率图像时出错。");
+    } finally {
+      exportAbortRef.current = null;
+      setIsExporting(false);
     }
   };
 
@@ -162,6 +726,18 @@ const App: React.FC = () => {
             <h1 className="font-bold text-xl tracking-tight">多频段图像融合 <span className="text-primary-500">演示</span></h1>
           </div>
           <div className="flex items-center gap-4">
+            <div className="flex items-center gap-1">
+              <button title="保存项目 (.json)" onClick={saveProjectFile} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800 transition">
+                <Save className="w-4 h-4" />
+              </button>
+              <button title="打开项目" onClick={() => projectInputRef.current?.click()} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800 transition">
+                <FolderOpen className="w-4 h-4" />
+              </button>
+              <button title="复制分享链接" onClick={copyShareLink} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800 transition">
+                <Link2 className="w-4 h-4" />
+              </button>
+              <input ref={projectInputRef} type="file" accept=".json,application/json" className="hidden" onChange={openProjectFile} />
+            </div>
             <button 
               onClick={() => setChatOpen(!chatOpen)}
               className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-slate-800 hover:bg-slate-700 transition text-sm font-medium border border-slate-700"
@@ -182,28 +758,86 @@ const App: React.FC = () => {
             <h2 className="text-sm uppercase tracking-wider text-slate-400 font-semibold mb-4">源图像</h2>
             
             <div className="space-y-4">
-              {/* Image A */}
-              <div className="group relative aspect-video bg-slate-800 rounded-lg overflow-hidden border-2 border-dashed border-slate-700 hover:border-primary-500 transition-colors">
-                 <img src={imgA} alt="Source A" className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition" />
+              <SourceList sources={sources} labelMap={labelMap} onChange={handleSourcesChange} onLabelMapChange={setLabelMap} />
+
+              {/* Mask image (optional) */}
+              <div className="group relative h-24 bg-slate-800 rounded-lg overflow-hidden border-2 border-dashed border-slate-700 hover:border-primary-500 transition-colors">
+                 {maskImage ? (
+                   <img src={maskImage.url} alt="Mask" className="w-full h-full object-contain opacity-80 group-hover:opacity-100 transition checkerboard" />
+                 ) : (
+                   <div className="w-full h-full flex items-center justify-center text-xs text-slate-500">灰度 / 透明通道 / 分割图</div>
+                 )}
                  <label className="absolute inset-0 flex flex-col items-center justify-center cursor-pointer opacity-0 group-hover:opacity-100 bg-black/50 transition duration-200">
-                    <Upload className="w-8 h-8 text-white mb-2" />
-                    <span className="text-xs font-bold text-white">更换图像 A</span>
-                    <input type="file" className="hidden" accept="image/*" onChange={(e) => handleFileUpload(e, setImgA)} />
+                    <Upload className="w-6 h-6 text-white mb-1" />
+                    <span className="text-xs font-bold text-white">{maskImage ? '更换蒙版图像' : '上传蒙版图像'}</span>
+                    <input type="file" className="hidden" accept="image/*" onChange={(e) => handleFileUpload(e, (src) => { setMaskImage(src); setMaskMode('image'); })} />
                  </label>
-                 <div className="absolute top-2 left-2 bg-black/60 px-2 py-1 rounded text-xs font-mono">图像 A</div>
+                 <div className="absolute top-2 left-2 bg-black/60 px-2 py-1 rounded text-xs font-mono">蒙版（可选）</div>
               </div>
+            </div>
+          </section>
 
-              {/* Image B */}
-              <div className="group relative aspect-video bg-slate-800 rounded-lg overflow-hidden border-2 border-dashed border-slate-700 hover:border-primary-500 transition-colors">
-                 <img src={imgB} alt="Source B" className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition" />
-                 <label className="absolute inset-0 flex flex-col items-center justify-center cursor-pointer opacity-0 group-hover:opacity-100 bg-black/50 transition duration-200">
-                    <Upload className="w-8 h-8 text-white mb-2" />
-                    <span className="text-xs font-bold text-white">更换图像 B</span>
-                    <input type="file" className="hidden" accept="image/*" onChange={(e) => handleFileUpload(e, setImgB)} />
-                 </label>
-                 <div className="absolute top-2 left-2 bg-black/60 px-2 py-1 rounded text-xs font-mono">图像 B</div>
+          <section className="bg-slate-900 rounded-2xl p-6 border border-slate-800 shadow-xl">
+            <h2 className="text-sm uppercase tracking-wider text-slate-400 font-semibold mb-4">图像对齐</h2>
+            {multiSource ? (
+              <p className="text-xs text-slate-500">对齐仅用于 A、B 两张图像的融合；多图模式下各图像需预先配准。</p>
+            ) : (
+              <AlignmentControls
+                options={alignment}
+                onChange={setAlignment}
+                urlA={imgA.url}
+                urlB={imgB.url}
+                fitMode={fitMode}
+                view={alignView}
+              />
+            )}
+          </section>
+
+          <section className="bg-slate-900 rounded-2xl p-6 border border-slate-800 shadow-xl">
+            <h2 className="text-sm uppercase tracking-wider text-slate-400 font-semibold mb-4">曝光补偿</h2>
+            {multiSource ? (
+              <p className="text-xs text-slate-500">曝光补偿仅用于 A、B 两张图像的融合。</p>
+            ) : (
+              <PhotometricControls options={photometric} onChange={setPhotometric} result={photometricResult} />
+            )}
+          </section>
+
+          <section className="bg-slate-900 rounded-2xl p-6 border border-slate-800 shadow-xl">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-sm uppercase tracking-wider text-slate-400 font-semibold">融合蒙版</h2>
+              <div className="flex gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+                {MASK_MODES.map(({ value, label, icon: Icon }) => (
+                  <button
+                    key={value}
+                    onClick={() => setMaskMode(value)}
+                    className={`px-2 py-1 rounded-md text-xs font-medium transition flex items-center gap-1 ${maskMode === value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    <Icon className="w-3 h-3" /> {label}
+                  </button>
+                ))}
               </div>
             </div>
+            {multiSource && (
+              <p className="mb-3 text-xs text-amber-400/90 bg-amber-500/10 border border-amber-500/20 rounded-lg px-3 py-2">
+                多图模式（{sources.length} 张）：融合权重来自各图像的权重蒙版或标签图，此处的蒙版不参与计算。
+              </p>
+            )}
+            {/* Kept mounted while hidden so the painting survives mode switches */}
+            <div className={maskMode === 'painted' ? '' : 'hidden'}>
+              <MaskEditor imageUrl={imgA.url} initialMask={paintedMaskInit} onChange={handleMaskChange} />
+            </div>
+            {maskMode === 'parametric' && (
+              <MaskSpecControls spec={maskSpec} onChange={setMaskSpec} aspectRatio={aspectA} />
+            )}
+            {maskMode === 'image' && (
+              <MaskImageControls url={maskImage?.url ?? null} options={maskImageOptions} onChange={setMaskImageOptions} />
+            )}
+            {maskMode === 'seam' && (
+              <div className="space-y-4">
+                <SeamControls options={seamOptions} onChange={setSeamOptions} view={seamView} />
+                <MaskSpecControls spec={maskSpec} onChange={setMaskSpec} aspectRatio={aspectA} />
+              </div>
+            )}
           </section>
 
           <section className="bg-slate-900 rounded-2xl p-6 border border-slate-800 shadow-xl">
@@ -224,18 +858,229 @@ const App: React.FC = () => {
                   </p>
                 </div>
 
+                <LevelCurveEditor
+                  label="各层蒙版模糊 (σ)"
+                  values={maskSigmas}
+                  min={0} max={8} defaultValue={0}
+                  format={(v) => `σ = ${v.toFixed(1)}`}
+                  onChange={setMaskSigmaCurve}
+                />
+                <LevelCurveEditor
+                  label="各层频段增益"
+                  values={bandGains}
+                  min={0} max={2} defaultValue={1}
+                  format={(v) => `× ${v.toFixed(2)}`}
+                  onChange={setBandGainCurve}
+                />
+                <p className="text-xs text-slate-500">
+                  第 0 层为最高频细节，最后一层为高斯基底。低频层使用更大的 σ 可获得更宽的过渡，高频层保持较小的 σ 以保留清晰纹理。
+                </p>
+
+                <div>
+                  <div className="text-sm text-slate-300 mb-2">图像 B 适配方式</div>
+                  <div className="grid grid-cols-3 gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+                    {FIT_MODES.map(m => (
+                      <button
+                        key={m.value}
+                        onClick={() => setFitMode(m.value)}
+                        className={`py-1.5 rounded-md text-xs font-medium transition ${fitMode === m.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {m.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500 mt-2">
+                    结果保持图像 A 的尺寸与宽高比，图像 B 按所选方式对齐到 A 的画布。
+                  </p>
+                </div>
+
+                <div>
+                  <div className="text-sm text-slate-300 mb-2">融合色彩空间</div>
+                  <div className="grid grid-cols-4 gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+                    {COLOR_SPACES.map(c => (
+                      <button
+                        key={c.value}
+                        onClick={() => setColorSpace(c.value)}
+                        className={`py-1.5 rounded-md text-xs font-medium transition ${colorSpace === c.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {c.label}
+                      </button>
+                    ))}
+                  </div>
+                  {separateChroma && (
+                    <div className="mt-3">
+                      <div className="flex justify-between text-xs mb-1">
+                        <span className="text-slate-400">色度通道层数</span>
+                        <span className="text-primary-500 font-mono">{chromaDepth ?? depth} 层</span>
+                      </div>
+                      <input 
+                        type="range" min="1" max="7" step="1" 
+                        value={chromaDepth ?? depth} onChange={(e) => setChromaDepth(Number(e.target.value))}
+                        className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+                      />
+                    </div>
+                  )}
+                  <p className="text-xs text-slate-500 mt-2">
+                    线性 RGB 避免过渡区偏暗；CIELAB / YCbCr 可为亮度与色度分别设置金字塔层数。
+                  </p>
+                  <button
+                    onClick={handleCompareColorSpaces}
+                    disabled={isProcessing || multiSource}
+                    className="mt-2 text-xs text-primary-400 hover:text-primary-300 disabled:opacity-50"
+                  >
+                    对比全部色彩空间 →
+                  </button>
+                </div>
+
+                <div>
+                  <div className="grid grid-cols-2 gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+                    {BLEND_METHODS.map(m => (
+                      <button
+                        key={m.value}
+                        onClick={() => setBlendMethod(m.value)}
+                        className={`py-1.5 rounded-md text-xs font-medium transition ${blendMethod === m.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {m.label}
+                      </button>
+                    ))}
+                  </div>
+                  {multiSource && blendMethod !== 'pyramid' && (
+                    <p className="mt-2 text-xs text-slate-500">多图模式始终使用多频段融合。</p>
+                  )}
+                  {(blendMethod === 'pyramid' || multiSource) && (
+                    <div className="mt-3 space-y-1 text-xs">
+                      <div className="text-slate-400">多尺度分解</div>
+                      <div className="grid grid-cols-4 gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+                        {DECOMPOSITIONS.map(d => (
+                          <button
+                            key={d.value}
+                            onClick={() => setDecomposition(d.value)}
+                            className={`py-1 rounded-md font-medium transition ${decomposition === d.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                          >
+                            {d.label}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-slate-500">
+                        小波按 Mallat 布局逐层拆分细节；DoG 栈不降采样，每层保持原始尺寸。金字塔分析页显示所选分解的各个频段。
+                      </p>
+                      <button
+                        onClick={handleCompareDecompositions}
+                        disabled={isProcessing || multiSource}
+                        className="text-primary-400 hover:text-primary-300 disabled:opacity-50"
+                      >
+                        对比全部分解方式 →
+                      </button>
+                    </div>
+                  )}
+                  {blendMethod === 'pyramid' && !multiSource && (
+                    <div className="mt-3 space-y-1 text-xs">
+                      <div className="flex items-center justify-between">
+                        <span className="text-slate-400">计算后端</span>
+                        <div className="flex gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+                          {BACKENDS.map(b => (
+                            <button
+                              key={b.value}
+                              onClick={() => setBackend(b.value)}
+                              className={`px-2 py-0.5 rounded-md transition ${backend === b.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                            >
+                              {b.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      {backend === 'webgl2' && lastBlend?.output.backend === 'cpu' && (
+                        <p className="text-amber-400">
+                          {lastBlend.output.decomposition === 'laplacian'
+                            ? 'WebGL2 浮点渲染不可用，上次融合已回退到 CPU。'
+                            : 'WebGL2 后端只实现了拉普拉斯金字塔，上次融合在 CPU 上运行。'}
+                        </p>
+                      )}
+                      {backend === 'webgl2' && lastBlend?.output.backend === 'webgl2' && (
+                        <p className="text-slate-500">各层金字塔保存在浮点纹理中，由着色器完成缩小、放大、相减、混合与重建。</p>
+                      )}
+                    </div>
+                  )}
+                  {blendMethod === 'poisson' && (
+                    <div className="mt-3 space-y-2 text-xs">
+                      <div className="grid grid-cols-2 gap-1">
+                        {POISSON_VARIANTS.map(v => (
+                          <button
+                            key={v.value}
+                            onClick={() => setPoissonConfig({ ...poissonConfig, variant: v.value })}
+                            className={`py-1 rounded-md border transition ${poissonConfig.variant === v.value ? 'border-primary-500 text-white' : 'border-slate-800 text-slate-400 hover:text-white'}`}
+                          >
+                            {v.label}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="grid grid-cols-3 gap-1">
+                        {POISSON_SOLVERS.map(v => (
+                          <button
+                            key={v.value}
+                            onClick={() => setPoissonConfig({ ...poissonConfig, solver: v.value })}
+                            className={`py-1 rounded-md border transition ${poissonConfig.solver === v.value ? 'border-primary-500 text-white' : 'border-slate-800 text-slate-400 hover:text-white'}`}
+                          >
+                            {v.label}
+                          </button>
+                        ))}
+                      </div>
+                      <label className="flex items-center gap-3">
+                        <span className="w-16 text-slate-400">迭代次数</span>
+                        <input
+                          type="range" min="10" max="2000" step="10"
+                          value={poissonConfig.iterations}
+                          onChange={(e) => setPoissonConfig({ ...poissonConfig, iterations: Number(e.target.value) })}
+                          className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+                        />
+                        <span className="w-10 text-right font-mono text-primary-500">{poissonConfig.iterations}</span>
+                      </label>
+                      <p className="text-slate-500">
+                        在蒙版白色区域内保留图像 A 的梯度，并以图像 B 作为边界条件求解泊松方程。
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox" checked={liveUpdate}
+                    onChange={(e) => setLiveUpdate(e.target.checked)}
+                    className="accent-primary-500"
+                  />
+                  实时预览（修改参数或绘制蒙版后自动重新融合，源图像不变时复用 A、B 金字塔）
+                </label>
+
                 <button 
                   onClick={handleProcess}
                   disabled={isProcessing}
                   className="w-full py-3 bg-primary-600 hover:bg-primary-500 active:bg-primary-700 rounded-xl font-semibold text-white shadow-lg shadow-primary-500/20 flex items-center justify-center gap-2 transition disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {isProcessing ? (
-                    <RefreshCcw className="w-5 h-5 animate-spin" />
-                  ) : (
-                    <Zap className="w-5 h-5" />
-                  )}
-                  {isProcessing ? '处理中...' : '开始融合'}
+                  <Zap className="w-5 h-5" />
+                  {isProcessing ? `处理中 ${Math.round((progress?.fraction ?? 0) * 100)}%` : '开始融合'}
                 </button>
+
+                <button
+                  onClick={handleCompareMethods}
+                  disabled={isProcessing || multiSource}
+                  className="w-full py-2 rounded-xl text-sm font-medium text-slate-300 border border-slate-700 hover:border-primary-500 hover:text-white transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  对比基线方法（硬切割 / 羽化 / 双频段）
+                </button>
+
+                {isProcessing && (
+                  <div className="space-y-1">
+                    <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-primary-500 transition-all duration-150"
+                        style={{ width: `${(progress?.fraction ?? 0) * 100}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-slate-500 font-mono">
+                      {progress ? `${STAGE_LABELS[progress.stage]} · 第 ${progress.level} 层` : '加载图像...'}
+                    </p>
+                  </div>
+                )}
              </div>
           </section>
         </div>
@@ -269,31 +1114,41 @@ const App: React.FC = () => {
              ) : (
                <>
                  <div className={`transition-opacity duration-500 w-full h-full flex flex-col items-center justify-center ${showPyramid ? 'hidden' : 'flex'}`}>
-                    <div className="checkerboard rounded-lg p-2 inline-block shadow-inner bg-slate-950">
-                      <img src={resultCanvas.toDataURL()} alt="Result" className="max-w-full max-h-[600px] rounded object-contain" />
-                    </div>
+                    {lastBlend && (
+                      <div className="w-full px-4 pt-4">
+                        <ResultViewer result={lastBlend.output.result} a={lastBlend.a} b={lastBlend.b} mask={lastBlend.mask} />
+                      </div>
+                    )}
+                    {lastBlend?.output.metrics && (
+                      <div className="w-full px-4 pt-4">
+                        <MetricsPanel metrics={lastBlend.output.metrics} />
+                      </div>
+                    )}
                     <div className="mt-4 flex gap-4">
                       <button onClick={downloadResult} className="flex items-center gap-2 text-sm text-primary-400 hover:text-primary-300">
                         <Download className="w-4 h-4" /> 保存结果图像
                       </button>
+                      <button onClick={exportFullResolution} className="flex items-center gap-2 text-sm text-primary-400 hover:text-primary-300">
+                        <Maximize className="w-4 h-4" />
+                        {isExporting
+                          ? `导出中 ${Math.round((exportProgress?.fraction ?? 0) * 100)}%${exportProgress?.tile ? ` (分块 ${exportProgress.tile.index + 1}/${exportProgress.tile.count})` : ''} · 点击取消`
+                          : '导出原始分辨率'}
+                      </button>
+                      <button onClick={exportBundle} disabled={isBundling} className="flex items-center gap-2 text-sm text-primary-400 hover:text-primary-300 disabled:opacity-50">
+                        <FileArchive className="w-4 h-4" /> {isBundling ? '打包中...' : '导出全部 (ZIP)'}
+                      </button>
                     </div>
+
+                    {comparison && (
+                      <div className="mt-6 w-full px-4">
+                        <ComparisonView key={comparison.title} title={comparison.title} items={comparison.items} />
+                      </div>
+                    )}
                  </div>
 
-                 {showPyramid && (
-                   <div className="w-full p-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 overflow-y-auto max-h-[700px]">
-                      {pyramidLevels.map((canvas, i) => (
-                        <div key={i} className="flex flex-col gap-2">
-                           <div className="aspect-square bg-slate-950 rounded border border-slate-800 flex items-center justify-center p-2 relative">
-                             <img src={canvas.toDataURL()} className="max-w-full max-h-full object-contain filter contrast-125" />
-                             <span className="absolute top-1 left-1 text-[10px] font-mono bg-black/70 px-1 rounded text-slate-300">
-                               第 {i} 层 (拉普拉斯)
-                             </span>
-                           </div>
-                           <p className="text-xs text-slate-500 text-center">
-                             {i === pyramidLevels.length - 1 ? '基底层 (高斯)' : '高频细节层'}
-                           </p>
-                        </div>
-                      ))}
+                 {showPyramid && lastBlend && (
+                   <div className="w-full overflow-y-auto max-h-[800px]">
+                     <PyramidInspector output={lastBlend.output} />
                    </div>
                  )}
                </>
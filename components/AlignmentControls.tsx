@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Undo2, Trash2 } from 'lucide-react';
+import { AlignMode, AlignmentOptions, ControlPoint, FitMode, RasterImage } from '../types';
+import { AlignmentResult, TransformModel } from '../services/alignment';
+import { fitCanvas, loadImageToCanvas } from '../services/imageProcessor';
+
+// The last alignment, with preview-size A and B as warped into A's frame
+export interface AlignView {
+  a: RasterImage;
+  b: RasterImage;
+  result: AlignmentResult;
+  overlap: number; // 0-1 share of A covered by B
+}
+
+interface AlignmentControlsProps {
+  options: AlignmentOptions;
+  onChange: (options: AlignmentOptions) => void;
+  urlA: string;
+  urlB: string;
+  fitMode: FitMode; // B is fitted to A's size before points are picked on it
+  view: AlignView | null;
+}
+
+const MODES: { value: AlignMode; label: string }[] = [
+  { value: 'none', label: '不对齐' },
+  { value: 'translation', label: '平移' },
+  { value: 'homography', label: '单应性' },
+  { value: 'manual', label: '控制点' },
+];
+
+const MODE_HINTS: Record<AlignMode, string> = {
+  none: '假定 A、B 已经配准，B 只按适配方式缩放到 A 的尺寸。',
+  translation: '相位相关自动估计平移，适合三脚架上轻微移动的两张照片。',
+  homography: '特征点匹配 + RANSAC 估计单应性，适合手持拍摄的同一场景；匹配不足时退回平移。',
+  manual: '先在 A 上点击，再在 B 上点击对应位置。1 对：平移，2 对：相似，3 对：仿射，4 对及以上：单应性。',
+};
+
+const MODEL_LABELS: Record<TransformModel, string> = {
+  identity: '恒等',
+  translation: '平移',
+  similarity: '相似变换',
+  affine: '仿射变换',
+  homography: '单应性',
+};
+
+// Point markers over a preview image; clicks report 0-1 coordinates
+const PointPicker: React.FC<{
+  canvas: HTMLCanvasElement | null;
+  label: string;
+  points: { x: number; y: number }[];
+  pending?: { x: number; y: number } | null;
+  active: boolean;
+  onPick: (pt: { x: number; y: number }) => void;
+}> = ({ canvas, label, points, pending, active, onPick }) => {
+  const url = canvas?.toDataURL();
+  return (
+    <div
+      className={`relative rounded-lg overflow-hidden border ${active ? 'border-primary-500 cursor-crosshair' : 'border-slate-700'}`}
+      onClick={(e) => {
+        if (!active) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        onPick({ x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height });
+      }}
+    >
+      {url ? <img src={url} alt={label} className="w-full block select-none" draggable={false} /> : <div className="aspect-video bg-slate-800" />}
+      <span className="absolute top-1 left-1 bg-black/60 px-1 rounded text-[10px] font-mono">{label}</span>
+      {points.map((pt, i) => (
+        <span
+          key={i}
+          className="absolute -translate-x-1/2 -translate-y-1/2 w-4 h-4 rounded-full bg-primary-500 border border-white text-[9px] leading-[14px] text-center font-bold text-white pointer-events-none"
+          style={{ left: `${pt.x * 100}%`, top: `${pt.y * 100}%` }}
+        >
+          {i + 1}
+        </span>
+      ))}
+      {pending && (
+        <span
+          className="absolute -translate-x-1/2 -translate-y-1/2 w-4 h-4 rounded-full border-2 border-amber-400 animate-pulse pointer-events-none"
+          style={{ left: `${pending.x * 100}%`, top: `${pending.y * 100}%` }}
+        />
+      )}
+    </div>
+  );
+};
+
+const AlignmentControls: React.FC<AlignmentControlsProps> = ({ options, onChange, urlA, urlB, fitMode, view }) => {
+  const [previews, setPreviews] = useState<{ a: HTMLCanvasElement; b: HTMLCanvasElement } | null>(null);
+  const [pendingA, setPendingA] = useState<{ x: number; y: number } | null>(null);
+  const overlapRef = useRef<HTMLCanvasElement>(null);
+  const manual = options.mode === 'manual';
+
+  // Points are picked on B as the blend sees it: fitted to A's canvas
+  useEffect(() => {
+    if (!manual) return;
+    let cancelled = false;
+    Promise.all([loadImageToCanvas(urlA), loadImageToCanvas(urlB)]).then(([a, b]) => {
+      if (!cancelled) setPreviews({ a, b: fitCanvas(b, a.width, a.height, fitMode) });
+    }).catch(console.error);
+    return () => { cancelled = true; };
+  }, [manual, urlA, urlB, fitMode]);
+
+  // Onion skin: A and warped B averaged where they overlap, A dimmed elsewhere
+  useEffect(() => {
+    const canvas = overlapRef.current;
+    if (!view || !canvas) return;
+    const { a, b } = view;
+    canvas.width = a.width;
+    canvas.height = a.height;
+    const ctx = canvas.getContext('2d')!;
+    const out = ctx.createImageData(a.width, a.height);
+    for (let i = 0; i < out.data.length; i += 4) {
+      const coverage = b.data[i + 3] / 255;
+      for (let c = 0; c < 3; c++) {
+        const mixed = (a.data[i + c] + b.data[i + c]) / 2;
+        out.data[i + c] = coverage * mixed + (1 - coverage) * a.data[i + c] * 0.35;
+      }
+      out.data[i + 3] = 255;
+    }
+    ctx.putImageData(out, 0, 0);
+  }, [view]);
+
+  const setMode = (mode: AlignMode) => {
+    setPendingA(null);
+    onChange({ ...options, mode });
+  };
+
+  const addPair = (b: { x: number; y: number }) => {
+    if (!pendingA) return;
+    const point: ControlPoint = { a: pendingA, b };
+    setPendingA(null);
+    onChange({ ...options, points: [...options.points, point] });
+  };
+
+  const iconButton = 'p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+        {MODES.map(m => (
+          <button
+            key={m.value}
+            onClick={() => setMode(m.value)}
+            className={`py-1.5 rounded-md text-xs font-medium transition ${options.mode === m.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">{MODE_HINTS[options.mode]}</p>
+
+      {manual && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <PointPicker
+              canvas={previews?.a ?? null}
+              label="A"
+              points={options.points.map(p => p.a)}
+              pending={pendingA}
+              active={!pendingA}
+              onPick={setPendingA}
+            />
+            <PointPicker
+              canvas={previews?.b ?? null}
+              label="B"
+              points={options.points.map(p => p.b)}
+              active={!!pendingA}
+              onPick={addPair}
+            />
+          </div>
+          <div className="flex items-center justify-between text-xs text-slate-400">
+            <span>{options.points.length} 对控制点{pendingA ? ' · 请在 B 上点击对应位置' : ''}</span>
+            <div className="flex gap-1">
+              <button
+                title="撤销"
+                disabled={!pendingA && options.points.length === 0}
+                onClick={() => (pendingA ? setPendingA(null) : onChange({ ...options, points: options.points.slice(0, -1) }))}
+                className={iconButton}
+              >
+                <Undo2 className="w-3.5 h-3.5" />
+              </button>
+              <button
+                title="清空"
+                disabled={options.points.length === 0}
+                onClick={() => { setPendingA(null); onChange({ ...options, points: [] }); }}
+                className={iconButton}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {options.mode !== 'none' && view && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-[10px] font-mono text-slate-500">
+            <span>
+              {MODEL_LABELS[view.result.model]}
+              {view.result.inliers !== undefined && ` · 内点 ${view.result.inliers}/${view.result.matches}`}
+              {view.result.fallback && ` · 匹配不足 (${view.result.matches})，已退回平移`}
+            </span>
+            <span>重叠 {Math.round(view.overlap * 100)}%</span>
+          </div>
+          <canvas ref={overlapRef} className="w-full rounded-lg border border-slate-700" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlignmentControls;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Grid2x2, Columns2 } from 'lucide-react';
+
+export interface ComparisonItem {
+  id: string;
+  label: string;
+  canvas: HTMLCanvasElement;
+}
+
+interface ComparisonViewProps {
+  title: string;
+  items: ComparisonItem[];
+}
+
+type ViewMode = 'grid' | 'swipe';
+
+// Same inputs rendered by different methods/settings: labelled grid, or a swipe slider between two
+const ComparisonView: React.FC<ComparisonViewProps> = ({ title, items }) => {
+  const [mode, setMode] = useState<ViewMode>('grid');
+  const [leftId, setLeftId] = useState(items[0]?.id);
+  const [rightId, setRightId] = useState(items[items.length - 1]?.id);
+  const [split, setSplit] = useState(0.5);
+  const [dragging, setDragging] = useState(false);
+
+  const left = items.find(i => i.id === leftId) ?? items[0];
+  const right = items.find(i => i.id === rightId) ?? items[items.length - 1];
+
+  const moveSplit = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setSplit(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  const modeButton = (value: ViewMode, Icon: React.FC<{ className?: string }>, label: string) => (
+    <button
+      title={label}
+      onClick={() => setMode(value)}
+      className={`p-1.5 rounded-md transition ${mode === value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+    >
+      <Icon className="w-4 h-4" />
+    </button>
+  );
+
+  const select = (value: string | undefined, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+    >
+      {items.map(i => <option key={i.id} value={i.id}>{i.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm text-slate-400 font-semibold">{title}</h3>
+        <div className="flex gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+          {modeButton('grid', Grid2x2, '网格')}
+          {modeButton('swipe', Columns2, '滑动对比')}
+        </div>
+      </div>
+
+      {mode === 'grid' ? (
+        <div className="grid grid-cols-2 gap-3">
+          {items.map(({ id, label, canvas }) => (
+            <div key={id} className="relative bg-slate-950 rounded border border-slate-800 p-1 checkerboard">
+              <img src={canvas.toDataURL()} alt={label} className="w-full h-auto rounded" />
+              <span className="absolute top-2 left-2 text-[10px] font-mono bg-black/70 px-1 rounded text-slate-300">
+                {label}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : left && right && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            {select(left.id, setLeftId)}
+            {select(right.id, setRightId)}
+          </div>
+          <div
+            className="relative select-none cursor-ew-resize rounded overflow-hidden border border-slate-800 checkerboard touch-none"
+            onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setDragging(true); moveSplit(e); }}
+            onPointerMove={(e) => dragging && moveSplit(e)}
+            onPointerUp={() => setDragging(false)}
+          >
+            <img src={right.canvas.toDataURL()} alt={right.label} className="block w-full h-auto" draggable={false} />
+            <img
+              src={left.canvas.toDataURL()} alt={left.label} draggable={false}
+              className="absolute inset-0 w-full h-full"
+              style={{ clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white/80 shadow" style={{ left: `${split * 100}%` }} />
+            <span className="absolute top-2 left-2 text-[10px] font-mono bg-black/70 px-1 rounded text-slate-300">{left.label}</span>
+            <span className="absolute top-2 right-2 text-[10px] font-mono bg-black/70 px-1 rounded text-slate-300">{right.label}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonView;
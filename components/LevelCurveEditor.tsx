@@ -0,0 +1,96 @@
+import React, { useRef, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+
+interface LevelCurveEditorProps {
+  label: string;
+  values: number[]; // one value per pyramid level, finest first
+  min: number;
+  max: number;
+  defaultValue: number;
+  format: (v: number) => string;
+  onChange: (values: number[]) => void;
+}
+
+const VIEW_W = 240;
+const VIEW_H = 72;
+const PAD = 8;
+
+// Small draggable curve: each pyramid level is a control point moved vertically
+const LevelCurveEditor: React.FC<LevelCurveEditorProps> = ({ label, values, min, max, defaultValue, format, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [active, setActive] = useState<number | null>(null);
+
+  const n = values.length;
+  const xAt = (i: number) => PAD + (n > 1 ? (i / (n - 1)) * (VIEW_W - 2 * PAD) : (VIEW_W - 2 * PAD) / 2);
+  const yAt = (v: number) => PAD + (1 - (v - min) / (max - min)) * (VIEW_H - 2 * PAD);
+
+  // Map a pointer position to (level index, value) in curve space
+  const pick = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * VIEW_W;
+    const y = ((e.clientY - rect.top) / rect.height) * VIEW_H;
+    const index = n > 1 ? Math.round(((x - PAD) / (VIEW_W - 2 * PAD)) * (n - 1)) : 0;
+    const t = 1 - (y - PAD) / (VIEW_H - 2 * PAD);
+    const value = min + Math.min(1, Math.max(0, t)) * (max - min);
+    return { index: Math.min(n - 1, Math.max(0, index)), value: Math.round(value * 100) / 100 };
+  };
+
+  const setValue = (index: number, value: number) => {
+    const next = values.slice();
+    next[index] = value;
+    onChange(next);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { index, value } = pick(e);
+    setActive(index);
+    setValue(index, value);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (active === null) return;
+    setValue(active, pick(e).value);
+  };
+
+  const path = values.map((v, i) => `${i === 0 ? 'M' : 'L'}${xAt(i)},${yAt(v)}`).join(' ');
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-slate-300">{label}</span>
+        <div className="flex items-center gap-2">
+          {active !== null && (
+            <span className="font-mono text-primary-500">第 {active} 层: {format(values[active])}</span>
+          )}
+          <button
+            title="重置"
+            onClick={() => onChange(values.map(() => defaultValue))}
+            className="text-slate-500 hover:text-white transition"
+          >
+            <RotateCcw className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_W} ${VIEW_H}`}
+        className="w-full h-[72px] bg-slate-950 rounded-lg border border-slate-800 cursor-ns-resize touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setActive(null)}
+      >
+        <line x1={PAD} x2={VIEW_W - PAD} y1={yAt(defaultValue)} y2={yAt(defaultValue)} stroke="#334155" strokeDasharray="3 3" />
+        <path d={path} fill="none" stroke="#3b82f6" strokeWidth={1.5} />
+        {values.map((v, i) => (
+          <g key={i}>
+            <circle cx={xAt(i)} cy={yAt(v)} r={active === i ? 4.5 : 3.5} fill={active === i ? '#60a5fa' : '#3b82f6'} />
+            <text x={xAt(i)} y={VIEW_H - 1} textAnchor="middle" fontSize={7} fill="#64748b">{i}</text>
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default LevelCurveEditor;
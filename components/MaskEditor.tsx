@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Brush, Eraser, PaintBucket, Contrast, Undo2, Redo2, Trash2 } from 'lucide-react';
+import { loadImageToCanvas, createGradientMask } from '../services/imageProcessor';
+
+// Mask convention: white selects image A, black selects image B.
+
+type Tool = 'brush' | 'eraser';
+
+interface MaskEditorProps {
+  imageUrl: string; // image A, painted over
+  initialMask?: string | null; // previously painted mask to start from, stretched onto A
+  onChange: (mask: HTMLCanvasElement) => void; // called after every committed edit
+}
+
+const MAX_HISTORY = 30;
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, initialMask, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const undoStack = useRef<ImageData[]>([]);
+  const redoStack = useRef<ImageData[]>([]);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(32);
+  const [hardness, setHardness] = useState(0.5);
+  const [overlayOpacity, setOverlayOpacity] = useState(0.6);
+  const [, setHistoryVersion] = useState(0); // re-render undo/redo buttons
+
+  const getCtx = () => canvasRef.current?.getContext('2d', { willReadFrequently: true }) ?? null;
+
+  // Start from the restored mask, or the default horizontal gradient, at A's preview resolution
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadImageToCanvas(imageUrl), initialMask ? loadImageToCanvas(initialMask) : null]).then(([img, start]) => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const base = start ?? createGradientMask(img.width, img.height, 'horizontal');
+      canvas.getContext('2d')!.drawImage(base, 0, 0, img.width, img.height);
+      undoStack.current = [];
+      redoStack.current = [];
+      setHistoryVersion(v => v + 1);
+      onChange(canvas);
+    }).catch(console.error);
+    return () => { cancelled = true; };
+  }, [imageUrl, initialMask]);
+
+  const pushHistory = () => {
+    const ctx = getCtx();
+    const canvas = canvasRef.current;
+    if (!ctx || !canvas) return;
+    undoStack.current.push(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    if (undoStack.current.length > MAX_HISTORY) undoStack.current.shift();
+    redoStack.current = [];
+    setHistoryVersion(v => v + 1);
+  };
+
+  const commit = () => {
+    if (canvasRef.current) onChange(canvasRef.current);
+  };
+
+  // Soft round dab: solid core out to `hardness`, linear falloff to the brush edge
+  const drawDab = (ctx: CanvasRenderingContext2D, x: number, y: number) => {
+    const radius = brushSize / 2;
+    const rgb = tool === 'brush' ? '255,255,255' : '0,0,0';
+    const gradient = ctx.createRadialGradient(x, y, radius * Math.min(hardness, 0.99), x, y, radius);
+    gradient.addColorStop(0, `rgba(${rgb},1)`);
+    gradient.addColorStop(1, `rgba(${rgb},0)`);
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = getCtx();
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pushHistory();
+    const p = toCanvasPoint(e);
+    drawDab(ctx, p.x, p.y);
+    lastPoint.current = p;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = getCtx();
+    const last = lastPoint.current;
+    if (!ctx || !last) return;
+    const p = toCanvasPoint(e);
+    // Interpolate dabs so fast strokes stay continuous
+    const spacing = Math.max(1, brushSize / 4);
+    const dist = Math.hypot(p.x - last.x, p.y - last.y);
+    const steps = Math.max(1, Math.floor(dist / spacing));
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      drawDab(ctx, last.x + (p.x - last.x) * t, last.y + (p.y - last.y) * t);
+    }
+    lastPoint.current = p;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPoint.current) return;
+    lastPoint.current = null;
+    commit();
+  };
+
+  const fillWith = (color: 'white' | 'black') => {
+    const ctx = getCtx();
+    const canvas = canvasRef.current;
+    if (!ctx || !canvas) return;
+    pushHistory();
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    commit();
+  };
+
+  const invert = () => {
+    const ctx = getCtx();
+    const canvas = canvasRef.current;
+    if (!ctx || !canvas) return;
+    pushHistory();
+    const id = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < id.data.length; i += 4) {
+      id.data[i] = 255 - id.data[i];
+      id.data[i + 1] = 255 - id.data[i + 1];
+      id.data[i + 2] = 255 - id.data[i + 2];
+    }
+    ctx.putImageData(id, 0, 0);
+    commit();
+  };
+
+  const stepHistory = (from: React.MutableRefObject<ImageData[]>, to: React.MutableRefObject<ImageData[]>) => {
+    const ctx = getCtx();
+    const canvas = canvasRef.current;
+    const snapshot = from.current.pop();
+    if (!ctx || !canvas || !snapshot) return;
+    to.current.push(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    ctx.putImageData(snapshot, 0, 0);
+    setHistoryVersion(v => v + 1);
+    commit();
+  };
+
+  const toolButton = (active: boolean) =>
+    `p-2 rounded-md transition ${active ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="relative rounded-lg overflow-hidden border border-slate-700 bg-slate-950">
+        <img src={imageUrl} alt="Mask base" className="absolute inset-0 w-full h-full object-fill pointer-events-none" />
+        <canvas
+          ref={canvasRef}
+          className="relative block w-full h-auto cursor-crosshair touch-none"
+          style={{ opacity: overlayOpacity }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        />
+        <div className="absolute top-2 left-2 bg-black/60 px-2 py-1 rounded text-xs font-mono pointer-events-none">
+          白 = 图像 A · 黑 = 图像 B
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+        <button title="画笔" onClick={() => setTool('brush')} className={toolButton(tool === 'brush')}>
+          <Brush className="w-4 h-4" />
+        </button>
+        <button title="橡皮擦" onClick={() => setTool('eraser')} className={toolButton(tool === 'eraser')}>
+          <Eraser className="w-4 h-4" />
+        </button>
+        <div className="w-px h-5 bg-slate-800 mx-1" />
+        <button title="全部填充为 A" onClick={() => fillWith('white')} className={toolButton(false)}>
+          <PaintBucket className="w-4 h-4" />
+        </button>
+        <button title="清空为 B" onClick={() => fillWith('black')} className={toolButton(false)}>
+          <Trash2 className="w-4 h-4" />
+        </button>
+        <button title="反相" onClick={invert} className={toolButton(false)}>
+          <Contrast className="w-4 h-4" />
+        </button>
+        <div className="flex-1" />
+        <button
+          title="撤销"
+          onClick={() => stepHistory(undoStack, redoStack)}
+          disabled={undoStack.current.length === 0}
+          className={`${toolButton(false)} disabled:opacity-30`}
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button
+          title="重做"
+          onClick={() => stepHistory(redoStack, undoStack)}
+          disabled={redoStack.current.length === 0}
+          className={`${toolButton(false)} disabled:opacity-30`}
+        >
+          <Redo2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2 text-xs">
+        <label className="flex items-center gap-3">
+          <span className="w-16 text-slate-400">笔刷大小</span>
+          <input
+            type="range" min="2" max="128" step="1"
+            value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+          />
+          <span className="w-10 text-right font-mono text-primary-500">{brushSize}px</span>
+        </label>
+        <label className="flex items-center gap-3">
+          <span className="w-16 text-slate-400">硬度</span>
+          <input
+            type="range" min="0" max="1" step="0.05"
+            value={hardness} onChange={(e) => setHardness(Number(e.target.value))}
+            className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+          />
+          <span className="w-10 text-right font-mono text-primary-500">{Math.round(hardness * 100)}%</span>
+        </label>
+        <label className="flex items-center gap-3">
+          <span className="w-16 text-slate-400">预览不透明度</span>
+          <input
+            type="range" min="0" max="1" step="0.05"
+            value={overlayOpacity} onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+            className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+          />
+          <span className="w-10 text-right font-mono text-primary-500">{Math.round(overlayOpacity * 100)}%</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,97 @@
+import React, { useEffect, useRef } from 'react';
+import { MaskChannel, MaskImageOptions } from '../types';
+import { loadImageToCanvas, canvasToRaster } from '../services/imageProcessor';
+import { maskFromImage } from '../services/maskGenerator';
+
+interface MaskImageControlsProps {
+  url: string | null; // uploaded mask image, if any
+  options: MaskImageOptions;
+  onChange: (options: MaskImageOptions) => void;
+}
+
+const CHANNELS: { value: MaskChannel; label: string }[] = [
+  { value: 'auto', label: '自动' },
+  { value: 'luminance', label: '亮度' },
+  { value: 'alpha', label: '透明通道' },
+];
+
+const MaskImageControls: React.FC<MaskImageControlsProps> = ({ url, options, onChange }) => {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  // Show the mask exactly as the blend will see it
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    loadImageToCanvas(url).then((img) => {
+      const canvas = previewRef.current;
+      if (cancelled || !canvas) return;
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d')!;
+      const id = ctx.createImageData(img.width, img.height);
+      id.data.set(maskFromImage(canvasToRaster(img), options).data);
+      ctx.putImageData(id, 0, 0);
+    }).catch(console.error);
+    return () => { cancelled = true; };
+  }, [url, options]);
+
+  if (!url) {
+    return (
+      <p className="text-xs text-slate-500">
+        请先在“源图像”中上传蒙版图像：灰度 PNG、带透明通道的 PNG 或二值分割图均可，尺寸会自动匹配图像 A。
+      </p>
+    );
+  }
+
+  const update = (patch: Partial<MaskImageOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+        {CHANNELS.map(c => (
+          <button
+            key={c.value}
+            onClick={() => update({ channel: c.value })}
+            className={`py-1.5 rounded-md text-xs font-medium transition ${options.channel === c.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {c.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <canvas ref={previewRef} className="w-24 h-auto self-start rounded border border-slate-700 bg-slate-950" />
+        <div className="flex-1 space-y-2 text-xs">
+          <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+            <input
+              type="checkbox" checked={options.threshold !== null}
+              onChange={(e) => update({ threshold: e.target.checked ? 128 : null })}
+              className="accent-primary-500"
+            />
+            二值化阈值
+          </label>
+          {options.threshold !== null && (
+            <label className="flex items-center gap-3">
+              <input
+                type="range" min="1" max="255" step="1"
+                value={options.threshold} onChange={(e) => update({ threshold: Number(e.target.value) })}
+                className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+              />
+              <span className="w-8 text-right font-mono text-primary-500">{options.threshold}</span>
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+            <input
+              type="checkbox" checked={options.invert}
+              onChange={(e) => update({ invert: e.target.checked })}
+              className="accent-primary-500"
+            />
+            反转蒙版
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskImageControls;
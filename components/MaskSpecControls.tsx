@@ -0,0 +1,117 @@
+import React, { useEffect, useRef } from 'react';
+import { MaskShape, MaskSpec } from '../types';
+import { renderMaskSpec } from '../services/maskGenerator';
+
+interface MaskSpecControlsProps {
+  spec: MaskSpec;
+  onChange: (spec: MaskSpec) => void;
+  aspectRatio?: number; // width / height of image A, for the preview thumbnail
+}
+
+const SHAPES: { value: MaskShape; label: string }[] = [
+  { value: 'linear', label: '线性' },
+  { value: 'radial', label: '圆形' },
+  { value: 'elliptical', label: '椭圆' },
+  { value: 'polygon', label: '多边形' },
+];
+
+const PREVIEW_WIDTH = 160;
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (v: number) => string;
+  onChange: (v: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format, onChange }) => (
+  <label className="flex items-center gap-3">
+    <span className="w-16 text-slate-400">{label}</span>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value} onChange={(e) => onChange(Number(e.target.value))}
+      className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+    />
+    <span className="w-12 text-right font-mono text-primary-500">{format(value)}</span>
+  </label>
+);
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+const MaskSpecControls: React.FC<MaskSpecControlsProps> = ({ spec, onChange, aspectRatio = 1 }) => {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  // Live thumbnail of the mask at small resolution
+  useEffect(() => {
+    const canvas = previewRef.current;
+    if (!canvas) return;
+    const w = PREVIEW_WIDTH;
+    const h = Math.max(1, Math.round(PREVIEW_WIDTH / aspectRatio));
+    canvas.width = w;
+    canvas.height = h;
+    const ctx = canvas.getContext('2d')!;
+    const id = ctx.createImageData(w, h);
+    id.data.set(renderMaskSpec(w, h, spec).data);
+    ctx.putImageData(id, 0, 0);
+  }, [spec, aspectRatio]);
+
+  const update = (patch: Partial<MaskSpec>) => onChange({ ...spec, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+        {SHAPES.map(s => (
+          <button
+            key={s.value}
+            onClick={() => update({ type: s.value })}
+            className={`py-1.5 rounded-md text-xs font-medium transition ${spec.type === s.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {s.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <canvas ref={previewRef} className="w-24 h-auto self-start rounded border border-slate-700 bg-slate-950" />
+        <div className="flex-1 space-y-2 text-xs">
+          <Slider label="中心 X" value={spec.center.x} min={0} max={1} step={0.01} format={percent}
+            onChange={(x) => update({ center: { ...spec.center, x } })} />
+          <Slider label="中心 Y" value={spec.center.y} min={0} max={1} step={0.01} format={percent}
+            onChange={(y) => update({ center: { ...spec.center, y } })} />
+          {spec.type !== 'radial' && (
+            <Slider label="角度" value={spec.angle} min={-180} max={180} step={1} format={(v) => `${v}°`}
+              onChange={(angle) => update({ angle })} />
+          )}
+          <Slider label="过渡宽度" value={spec.transition} min={0} max={0.5} step={0.01} format={percent}
+            onChange={(transition) => update({ transition })} />
+          {spec.type !== 'linear' && (
+            <Slider label="半径" value={spec.radius} min={0.02} max={1} step={0.01} format={percent}
+              onChange={(radius) => update({ radius })} />
+          )}
+          {spec.type === 'elliptical' && (
+            <Slider label="长短轴比" value={spec.aspect} min={0.1} max={1} step={0.01} format={(v) => v.toFixed(2)}
+              onChange={(aspect) => update({ aspect })} />
+          )}
+          {spec.type === 'polygon' && (
+            <Slider label="边数" value={spec.sides} min={3} max={12} step={1} format={(v) => `${v}`}
+              onChange={(sides) => update({ sides })} />
+          )}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+        <input
+          type="checkbox" checked={spec.invert}
+          onChange={(e) => update({ invert: e.target.checked })}
+          className="accent-primary-500"
+        />
+        反转蒙版（交换 A / B 区域）
+      </label>
+    </div>
+  );
+};
+
+export default MaskSpecControls;
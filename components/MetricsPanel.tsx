@@ -0,0 +1,80 @@
+import React, { useMemo, useState } from 'react';
+import { Flame } from 'lucide-react';
+import { BlendMetrics, MAX_PSNR } from '../services/metrics';
+import { rasterToCanvas } from '../services/imageProcessor';
+import { sourceLabel } from './SourceList';
+
+interface MetricsPanelProps {
+  metrics: BlendMetrics;
+}
+
+const formatPsnr = (psnr: number) => (psnr >= MAX_PSNR ? '∞' : `${psnr.toFixed(2)} dB`);
+
+// Quality numbers of the last preview blend, with the seam heat map on demand
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics }) => {
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const heatmapUrl = useMemo(() => rasterToCanvas(metrics.heatmap).toDataURL(), [metrics.heatmap]);
+  const { reconstruction, seam, sources } = metrics;
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="bg-slate-950 rounded-lg border border-slate-800 p-3 space-y-1">
+          <div className="text-slate-400">重建误差</div>
+          {reconstruction ? (
+            <div className="font-mono text-slate-200">
+              PSNR {formatPsnr(reconstruction.psnr)} · SSIM {reconstruction.ssim.toFixed(4)}
+              <div className="text-[10px] text-slate-500">对比图像 {sourceLabel(reconstruction.source)}</div>
+            </div>
+          ) : (
+            <div className="text-slate-500">仅在蒙版全白（只取一张源图）时计算。</div>
+          )}
+        </div>
+
+        <div className="bg-slate-950 rounded-lg border border-slate-800 p-3 space-y-1">
+          <div className="text-slate-400">接缝带梯度能量</div>
+          {seam.pixels > 0 ? (
+            <div className="font-mono text-slate-200 space-y-0.5">
+              <div>结果 {seam.energy.toFixed(1)} / 源图 {seam.reference.toFixed(1)}</div>
+              <div className={seam.artifact > seam.reference ? 'text-amber-400' : 'text-primary-400'}>
+                伪影 {seam.artifact.toFixed(1)}
+              </div>
+              <div className="text-[10px] text-slate-500">{seam.pixels.toLocaleString()} 个像素</div>
+            </div>
+          ) : (
+            <div className="text-slate-500">没有过渡带。</div>
+          )}
+        </div>
+
+        <div className="bg-slate-950 rounded-lg border border-slate-800 p-3 space-y-1">
+          <div className="text-slate-400">各源图区域 SSIM</div>
+          <div className="font-mono text-slate-200">
+            {sources.map(({ ssim, pixels }, k) => (
+              <div key={k} className="flex justify-between">
+                <span className="text-slate-500">{sourceLabel(k)}</span>
+                <span>{pixels > 0 ? ssim.toFixed(4) : '—'}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <button
+        onClick={() => setShowHeatmap(!showHeatmap)}
+        className="flex items-center gap-2 text-primary-400 hover:text-primary-300"
+      >
+        <Flame className="w-4 h-4" /> {showHeatmap ? '隐藏接缝热图' : '显示接缝热图'}
+      </button>
+      {showHeatmap && (
+        <div className="space-y-1">
+          <img src={heatmapUrl} alt="" className="w-full rounded border border-slate-800" style={{ imageRendering: 'pixelated' }} />
+          <p className="text-[10px] text-slate-500">
+            结果梯度与按权重混合的源图梯度之差；越亮表示融合引入的结构越多（按 99% 分位数归一化）。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetricsPanel;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { PhotometricMode, PhotometricOptions, PhotometricRegion } from '../types';
+import { PhotometricResult } from '../services/photometric';
+
+interface PhotometricControlsProps {
+  options: PhotometricOptions;
+  onChange: (options: PhotometricOptions) => void;
+  result: PhotometricResult | null; // from the last preview blend
+}
+
+const MODES: { value: PhotometricMode; label: string }[] = [
+  { value: 'none', label: '关闭' },
+  { value: 'gain', label: '增益 / 偏移' },
+  { value: 'histogram', label: '直方图匹配' },
+];
+
+const REGIONS: { value: PhotometricRegion; label: string }[] = [
+  { value: 'overlap', label: '整个重叠区' },
+  { value: 'transition', label: '蒙版过渡带' },
+];
+
+const CHANNELS = [
+  { label: 'R', color: '#f87171' },
+  { label: 'G', color: '#4ade80' },
+  { label: 'B', color: '#60a5fa' },
+];
+
+// B -> A transfer curve per channel, on a 0-255 square
+const curvePath = (result: PhotometricResult, c: number): string => {
+  const at = (v: number) => (result.lut ? result.lut[c][v] : Math.max(0, Math.min(255, result.gains[c] * v + result.offsets[c])));
+  return Array.from({ length: 32 }, (_, i) => {
+    const v = Math.round((i * 255) / 31);
+    return `${i ? 'L' : 'M'}${v} ${255 - at(v)}`;
+  }).join(' ');
+};
+
+const PhotometricControls: React.FC<PhotometricControlsProps> = ({ options, onChange, result }) => {
+  const update = (patch: Partial<PhotometricOptions>) => onChange({ ...options, ...patch });
+  const shown = options.mode !== 'none' && result && result.mode === options.mode ? result : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+        {MODES.map(m => (
+          <button
+            key={m.value}
+            onClick={() => update({ mode: m.value })}
+            className={`py-1.5 rounded-md text-xs font-medium transition ${options.mode === m.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {options.mode !== 'none' && (
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-slate-400">统计区域</span>
+          <div className="flex gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+            {REGIONS.map(r => (
+              <button
+                key={r.value}
+                onClick={() => update({ region: r.value })}
+                className={`px-2 py-0.5 rounded-md transition ${options.region === r.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {r.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {shown && (
+        <div className="flex gap-3 items-center">
+          <svg viewBox="0 0 255 255" className="w-20 h-20 shrink-0 bg-slate-950 rounded border border-slate-800">
+            <path d="M0 255 L255 0" stroke="#475569" strokeWidth="2" strokeDasharray="6 6" fill="none" />
+            {CHANNELS.map(({ color }, c) => (
+              <path key={c} d={curvePath(shown, c)} stroke={color} strokeWidth="4" fill="none" />
+            ))}
+          </svg>
+          <table className="text-[11px] font-mono text-slate-300">
+            <thead>
+              <tr className="text-slate-500">
+                <th />
+                <th className="font-normal px-2 text-right">{shown.lut ? '≈增益' : '增益'}</th>
+                <th className="font-normal px-2 text-right">{shown.lut ? '≈偏移' : '偏移'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {CHANNELS.map(({ label, color }, c) => (
+                <tr key={label}>
+                  <td style={{ color }}>{label}</td>
+                  <td className="px-2 text-right">×{shown.gains[c].toFixed(3)}</td>
+                  <td className="px-2 text-right">{shown.offsets[c] >= 0 ? '+' : ''}{shown.offsets[c].toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {shown && <p className="text-[10px] text-slate-500">基于 {shown.samples.toLocaleString()} 个像素估计，应用于整张 B。</p>}
+    </div>
+  );
+};
+
+export default PhotometricControls;
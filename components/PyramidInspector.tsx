@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { DecompositionName, PyramidLevel } from '../types';
+import { RasterBlendResult } from '../services/pyramidCore';
+import { toPyramidStages } from '../services/imageProcessor';
+import LevelCurveEditor from './LevelCurveEditor';
+
+interface PyramidInspectorProps {
+  output: RasterBlendResult;
+}
+
+type InspectorView = 'gaussian' | 'laplacian';
+
+const MALLAT_NOTE = '每层为 Mallat 布局：左上象限为空（低频部分进入下一层），其余三个象限依次为水平、垂直和对角细节。';
+
+// What the low-pass levels and the detail bands are called in each decomposition
+const DECOMPOSITION_LABELS: Record<DecompositionName, { name: string; lowpass: string; bands: string; note?: string }> = {
+  laplacian: { name: '拉普拉斯金字塔', lowpass: '高斯', bands: '拉普拉斯' },
+  haar: {
+    name: 'Haar 小波', lowpass: '近似', bands: '小波系数',
+    note: MALLAT_NOTE,
+  },
+  cdf97: {
+    name: 'CDF 9/7 小波', lowpass: '近似', bands: '小波系数',
+    note: MALLAT_NOTE,
+  },
+  dog: {
+    name: 'DoG 栈', lowpass: '高斯', bands: 'DoG',
+    note: '不降采样：每层都保持原始尺寸，相邻高斯层之差即为该层频段。',
+  },
+};
+
+// Matrix of every pyramid stage: rows A, B, mask and output, one column per level
+const PyramidInspector: React.FC<PyramidInspectorProps> = ({ output }) => {
+  const [view, setView] = useState<InspectorView>('laplacian');
+  const [gainCurve, setGainCurve] = useState<number[]>([]);
+  const [enlarged, setEnlarged] = useState<{ row: string; level: PyramidLevel } | null>(null);
+
+  const bandCount = output.laplacians.length;
+  // The coarsest band is a Gaussian residual, so only the detail bands get a gain
+  const gains = Array.from({ length: Math.max(0, bandCount - 1) }, (_, i) => gainCurve[i] ?? 1);
+
+  const stages = useMemo(() => toPyramidStages(output, gains), [output, gains.join()]);
+  const labels = DECOMPOSITION_LABELS[output.decomposition ?? 'laplacian'];
+  const viewLabels: Record<InspectorView, string> = { gaussian: `${labels.lowpass} / 重建`, laplacian: labels.bands };
+  const typeLabels: Record<PyramidLevel['type'], string> = { gaussian: labels.lowpass, laplacian: labels.bands, reconstructed: '重建' };
+
+  if (bandCount === 0) {
+    return <p className="text-sm text-slate-500 p-8 text-center">当前融合方法没有金字塔分解。</p>;
+  }
+
+  const allRows: { label: string; levels: PyramidLevel[] }[] = view === 'gaussian'
+    ? [
+        { label: '图像 A', levels: stages.gaussiansA },
+        { label: '图像 B', levels: stages.gaussiansB },
+        { label: '蒙版', levels: stages.gaussiansMask },
+        { label: '输出', levels: stages.reconstruction },
+      ]
+    : [
+        { label: '图像 A', levels: stages.laplaciansA },
+        { label: '图像 B', levels: stages.laplaciansB },
+        { label: '蒙版', levels: stages.gaussiansMask },
+        { label: '输出', levels: stages.laplacians },
+      ];
+  // N-image blends have no per-source A/B pyramids
+  const rows = allRows.filter(r => r.levels.length > 0);
+
+  return (
+    <div className="w-full p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800 text-xs">
+          {(Object.keys(viewLabels) as InspectorView[]).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-3 py-1 rounded-md transition ${view === v ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {viewLabels[v]}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-slate-500">{labels.name} · 点击图块放大</span>
+      </div>
+
+      {view === 'laplacian' && labels.note && <p className="text-xs text-slate-500">{labels.note}</p>}
+
+      {view === 'laplacian' && gains.length > 0 && (
+        <LevelCurveEditor
+          label={`${labels.bands}显示增益`}
+          values={gains}
+          min={1}
+          max={16}
+          defaultValue={1}
+          format={(v) => `×${v.toFixed(1)}`}
+          onChange={setGainCurve}
+        />
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-2">
+          <thead>
+            <tr>
+              <th />
+              {rows[rows.length - 1].levels.map(({ level }) => (
+                <th key={level} className="text-[10px] font-mono text-slate-500 font-normal">第 {level} 层</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ label, levels }) => (
+              <tr key={label}>
+                <th className="text-xs text-slate-400 font-medium text-right pr-1 whitespace-nowrap">{label}</th>
+                {levels.map((lvl) => (
+                  <td key={lvl.level}>
+                    <button
+                      onClick={() => setEnlarged({ row: label, level: lvl })}
+                      title={`${label} · 第 ${lvl.level} 层 (${typeLabels[lvl.type]})`}
+                      className="w-28 h-28 bg-slate-950 rounded border border-slate-800 hover:border-primary-500 transition flex items-center justify-center p-1 checkerboard"
+                    >
+                      <img src={lvl.canvas.toDataURL()} alt="" className="max-w-full max-h-full object-contain" style={{ imageRendering: 'pixelated' }} />
+                    </button>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {enlarged && (
+        <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-8" onClick={() => setEnlarged(null)}>
+          <div className="relative max-w-full max-h-full" onClick={(e) => e.stopPropagation()}>
+            <img
+              src={enlarged.level.canvas.toDataURL()}
+              alt=""
+              className="max-w-[90vw] max-h-[85vh] min-w-[256px] object-contain rounded checkerboard"
+              style={{ imageRendering: 'pixelated' }}
+            />
+            <div className="absolute top-2 left-2 text-xs font-mono bg-black/70 px-2 py-1 rounded text-slate-300">
+              {enlarged.row} · 第 {enlarged.level.level} 层 ({typeLabels[enlarged.level.type]}) · {enlarged.level.canvas.width}×{enlarged.level.canvas.height}
+            </div>
+            <button onClick={() => setEnlarged(null)} className="absolute top-2 right-2 p-1 rounded bg-black/70 text-slate-300 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PyramidInspector;
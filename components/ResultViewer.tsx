@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize, Scan, Layers } from 'lucide-react';
+import { RasterImage } from '../types';
+import { rasterToCanvas } from '../services/imageProcessor';
+
+interface ResultViewerProps {
+  result: RasterImage;
+  a: RasterImage; // sources and mask exactly as they were fed to the blend
+  b: RasterImage;
+  mask: RasterImage;
+}
+
+type CompareTarget = 'none' | 'a' | 'b';
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 32;
+
+const toDataUrl = (raster: RasterImage) => rasterToCanvas(raster).toDataURL();
+
+// Mask as a translucent red layer: A regions tinted, B regions clear
+const maskOverlayUrl = (mask: RasterImage): string => {
+  const overlay: RasterImage = { width: mask.width, height: mask.height, data: new Uint8ClampedArray(mask.data.length) };
+  for (let i = 0; i < mask.data.length; i += 4) {
+    overlay.data[i] = 239;
+    overlay.data[i + 1] = 68;
+    overlay.data[i + 2] = 68;
+    overlay.data[i + 3] = mask.data[i] * 0.5;
+  }
+  return toDataUrl(overlay);
+};
+
+const rgbAt = (raster: RasterImage, x: number, y: number) => {
+  const i = (y * raster.width + x) * 4;
+  return Array.from(raster.data.subarray(i, i + 4));
+};
+
+// Zoom/pan viewer with a swipe divider against a source, a mask overlay and a pixel readout.
+// Every layer sits in one transformed element, so zoom and pan stay in sync across them.
+const ResultViewer: React.FC<ResultViewerProps> = ({ result, a, b, mask }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [compare, setCompare] = useState<CompareTarget>('none');
+  const [split, setSplit] = useState(0.5);
+  const [showMask, setShowMask] = useState(false);
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+  const drag = useRef<{ kind: 'pan' | 'split'; startX: number; startY: number; origin: { x: number; y: number } } | null>(null);
+
+  const urls = useMemo(() => ({
+    result: toDataUrl(result),
+    a: toDataUrl(a),
+    b: toDataUrl(b),
+    mask: maskOverlayUrl(mask),
+  }), [result, a, b, mask]);
+
+  const { width, height } = result;
+
+  const fit = () => {
+    const el = containerRef.current;
+    if (!el || el.clientWidth === 0) return; // hidden behind the pyramid tab
+    const z = Math.max(MIN_ZOOM, Math.min(el.clientWidth / width, el.clientHeight / height, 1));
+    setZoom(z);
+    setOffset({ x: (el.clientWidth - width * z) / 2, y: (el.clientHeight - height * z) / 2 });
+  };
+
+  // Zoom around a point given in container coordinates
+  const zoomAt = (next: number, cx: number, cy: number) => {
+    const z = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next));
+    setOffset(o => ({ x: cx - ((cx - o.x) * z) / zoom, y: cy - ((cy - o.y) * z) / zoom }));
+    setZoom(z);
+  };
+
+  const zoomCentered = (next: number) => {
+    const el = containerRef.current;
+    if (el) zoomAt(next, el.clientWidth / 2, el.clientHeight / 2);
+  };
+
+  useEffect(fit, [width, height]);
+
+  // Native listener: React's wheel handler is passive and cannot stop page scrolling
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      zoomAt(zoom * Math.pow(1.0015, -e.deltaY), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  });
+
+  const toImage = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left - offset.x) / zoom,
+      y: (e.clientY - rect.top - offset.y) / zoom,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, kind: 'pan' | 'split') => {
+    e.stopPropagation();
+    containerRef.current!.setPointerCapture(e.pointerId);
+    drag.current = { kind, startX: e.clientX, startY: e.clientY, origin: offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const p = toImage(e);
+    const px = Math.floor(p.x);
+    const py = Math.floor(p.y);
+    setHover(px >= 0 && py >= 0 && px < width && py < height ? { x: px, y: py } : null);
+
+    const d = drag.current;
+    if (!d) return;
+    if (d.kind === 'pan') {
+      setOffset({ x: d.origin.x + e.clientX - d.startX, y: d.origin.y + e.clientY - d.startY });
+    } else {
+      setSplit(Math.min(1, Math.max(0, p.x / width)));
+    }
+  };
+
+  const compareUrl = compare === 'a' ? urls.a : compare === 'b' ? urls.b : null;
+  const pixelated = zoom >= 2;
+
+  const toolButton = (active: boolean) =>
+    `p-1.5 rounded-md transition ${active ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`;
+
+  const readout = (label: string, raster: RasterImage, gray = false) => {
+    if (!hover) return null;
+    const [r, g, bl, al] = rgbAt(raster, hover.x, hover.y);
+    return (
+      <span className="whitespace-nowrap">
+        <span className="text-slate-500">{label}</span> {gray ? r : `${r},${g},${bl}${al < 255 ? ` α${al}` : ''}`}
+      </span>
+    );
+  };
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+          <button title="缩小" onClick={() => zoomCentered(zoom / 1.5)} className={toolButton(false)}><ZoomOut className="w-4 h-4" /></button>
+          <button title="放大" onClick={() => zoomCentered(zoom * 1.5)} className={toolButton(false)}><ZoomIn className="w-4 h-4" /></button>
+          <button title="适应窗口" onClick={fit} className={toolButton(false)}><Maximize className="w-4 h-4" /></button>
+          <button title="1:1 像素" onClick={() => zoomCentered(1)} className={toolButton(zoom === 1)}><Scan className="w-4 h-4" /></button>
+          <span className="px-2 self-center text-xs font-mono text-slate-400">{Math.round(zoom * 100)}%</span>
+        </div>
+        <div className="flex gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800 text-xs">
+          {(['none', 'a', 'b'] as CompareTarget[]).map(t => (
+            <button key={t} onClick={() => setCompare(t)} className={`px-2 py-1 rounded-md transition ${compare === t ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}>
+              {t === 'none' ? '仅结果' : `对比 ${t.toUpperCase()}`}
+            </button>
+          ))}
+          <button title="蒙版叠加" onClick={() => setShowMask(!showMask)} className={`${toolButton(showMask)} ml-1`}>
+            <Layers className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="relative h-[520px] overflow-hidden rounded-lg bg-slate-950 checkerboard cursor-grab active:cursor-grabbing select-none touch-none"
+        onPointerDown={(e) => handlePointerDown(e, 'pan')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { drag.current = null; }}
+        onPointerLeave={() => setHover(null)}
+      >
+        <div
+          className="absolute top-0 left-0 origin-top-left"
+          style={{ width, height, transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`, imageRendering: pixelated ? 'pixelated' : 'auto' }}
+        >
+          <img src={urls.result} alt="Result" draggable={false} className="absolute inset-0 w-full h-full" />
+          {compareUrl && (
+            // Source on the right of the divider, result on the left
+            <img
+              src={compareUrl} alt="Source" draggable={false}
+              className="absolute inset-0 w-full h-full"
+              style={{ clipPath: `inset(0 0 0 ${split * 100}%)` }}
+            />
+          )}
+          {showMask && <img src={urls.mask} alt="Mask" draggable={false} className="absolute inset-0 w-full h-full" />}
+        </div>
+
+        {compareUrl && (
+          <div
+            className="absolute inset-y-0 w-3 -ml-1.5 cursor-ew-resize flex justify-center"
+            style={{ left: offset.x + split * width * zoom }}
+            onPointerDown={(e) => handlePointerDown(e, 'split')}
+          >
+            <div className="w-0.5 h-full bg-white/80 shadow" />
+          </div>
+        )}
+        {compareUrl && (
+          <>
+            <span className="absolute top-2 left-2 text-[10px] font-mono bg-black/70 px-1 rounded text-slate-300 pointer-events-none">结果</span>
+            <span className="absolute top-2 right-2 text-[10px] font-mono bg-black/70 px-1 rounded text-slate-300 pointer-events-none">图像 {compare.toUpperCase()}</span>
+          </>
+        )}
+      </div>
+
+      <div className="flex gap-4 text-[11px] font-mono text-slate-300 min-h-[1.25rem] flex-wrap">
+        {hover ? (
+          <>
+            <span className="text-primary-500">({hover.x}, {hover.y})</span>
+            {readout('A', a)}
+            {readout('B', b)}
+            {readout('M', mask, true)}
+            {readout('结果', result)}
+          </>
+        ) : (
+          <span className="text-slate-500">滚轮缩放，拖动平移；悬停查看像素值。</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResultViewer;
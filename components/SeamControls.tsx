@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RasterImage, SeamMethod, SeamOptions, SeamOrientation } from '../types';
+import { seamBoundary } from '../services/seamFinder';
+
+// The last seam found, with the preview-size sources it was found on
+export interface SeamView {
+  a: RasterImage;
+  b: RasterImage;
+  mask: RasterImage;
+  cost: number;
+}
+
+interface SeamControlsProps {
+  options: SeamOptions;
+  onChange: (options: SeamOptions) => void;
+  view: SeamView | null;
+}
+
+type SeamBackdrop = 'composite' | 'a' | 'b';
+
+const METHODS: { value: SeamMethod; label: string }[] = [
+  { value: 'dp', label: '动态规划' },
+  { value: 'graph-cut', label: '图割' },
+];
+
+const ORIENTATIONS: { value: SeamOrientation; label: string }[] = [
+  { value: 'vertical', label: '纵向接缝' },
+  { value: 'horizontal', label: '横向接缝' },
+];
+
+const BACKDROPS: { value: SeamBackdrop; label: string }[] = [
+  { value: 'composite', label: '拼接' },
+  { value: 'a', label: 'A' },
+  { value: 'b', label: 'B' },
+];
+
+const SEAM_COLOR = [239, 68, 68];
+
+const SeamControls: React.FC<SeamControlsProps> = ({ options, onChange, view }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [backdrop, setBackdrop] = useState<SeamBackdrop>('composite');
+
+  // Hard cut along the seam (or one source) with the seam path drawn on top
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!view || !canvas) return;
+    const { a, b, mask } = view;
+    canvas.width = a.width;
+    canvas.height = a.height;
+    const ctx = canvas.getContext('2d')!;
+    const out = ctx.createImageData(a.width, a.height);
+    const edge = seamBoundary(mask);
+    for (let p = 0; p < edge.length; p++) {
+      const i = p * 4;
+      const src = backdrop === 'a' || (backdrop === 'composite' && mask.data[i] >= 128) ? a.data : b.data;
+      if (edge[p]) {
+        out.data.set(SEAM_COLOR, i);
+        out.data[i + 3] = 255;
+      } else {
+        out.data.set(src.subarray(i, i + 4), i);
+      }
+    }
+    ctx.putImageData(out, 0, 0);
+  }, [view, backdrop]);
+
+  const update = (patch: Partial<SeamOptions>) => onChange({ ...options, ...patch });
+  const toggle = 'py-1.5 rounded-md text-xs font-medium transition';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+        {METHODS.map(m => (
+          <button
+            key={m.value}
+            onClick={() => update({ method: m.value })}
+            className={`${toggle} ${options.method === m.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      {options.method === 'dp' && (
+        <div className="grid grid-cols-2 gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+          {ORIENTATIONS.map(o => (
+            <button
+              key={o.value}
+              onClick={() => update({ orientation: o.value })}
+              className={`${toggle} ${options.orientation === o.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-slate-500">
+        {options.method === 'dp'
+          ? '在下方参数化蒙版的过渡带内寻找 A、B 差异最小的一条贯穿路径。'
+          : '在下方参数化蒙版的过渡带内求最小割，纯白区保留 A、纯黑区保留 B，接缝可为任意形状。'}
+      </p>
+
+      {view ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800">
+              {BACKDROPS.map(d => (
+                <button
+                  key={d.value}
+                  onClick={() => setBackdrop(d.value)}
+                  className={`px-2 py-0.5 rounded-md text-xs transition ${backdrop === d.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {d.label}
+                </button>
+              ))}
+            </div>
+            <span className="text-[10px] font-mono text-slate-500">代价 {Math.round(view.cost)}</span>
+          </div>
+          <canvas ref={canvasRef} className="w-full rounded-lg border border-slate-700" />
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">点击“开始融合”后显示接缝位置。</p>
+      )}
+    </div>
+  );
+};
+
+export default SeamControls;
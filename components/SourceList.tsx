@@ -0,0 +1,125 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, X, Upload, Plus, Scale, Tags } from 'lucide-react';
+import { BlendSource, ImageSource } from '../types';
+import { sourceFromFile } from '../services/imageSource';
+
+interface SourceListProps {
+  sources: BlendSource[]; // first two are A and B
+  labelMap: ImageSource | null;
+  onChange: (sources: BlendSource[]) => void;
+  onLabelMapChange: (labelMap: ImageSource | null) => void;
+}
+
+const MIN_SOURCES = 2;
+
+// Position label: A and B for the pair, #n beyond that
+export const sourceLabel = (index: number): string => (index < 2 ? String.fromCharCode(65 + index) : `#${index + 1}`);
+
+const fileInput = (onFile: (src: ImageSource) => void) => (
+  <input
+    type="file"
+    className="hidden"
+    accept="image/*"
+    onChange={(e) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (file) onFile(sourceFromFile(file));
+    }}
+  />
+);
+
+// Reorderable list of blend sources; with three or more, each one gets a weight map
+const SourceList: React.FC<SourceListProps> = ({ sources, labelMap, onChange, onLabelMapChange }) => {
+  const multi = sources.length > MIN_SOURCES;
+
+  const update = (index: number, patch: Partial<BlendSource>) =>
+    onChange(sources.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+  const move = (index: number, delta: number) => {
+    const next = sources.slice();
+    [next[index], next[index + delta]] = [next[index + delta], next[index]];
+    onChange(next);
+  };
+
+  const remove = (index: number) => onChange(sources.filter((_, i) => i !== index));
+
+  const addFiles = (files: FileList | null) => {
+    if (!files?.length) return;
+    onChange([...sources, ...Array.from(files).map(file => ({ image: sourceFromFile(file), weight: null }))]);
+  };
+
+  const iconButton = 'p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="space-y-2">
+      {sources.map(({ image, weight }, i) => (
+        <div key={image.id} className="flex items-center gap-3 bg-slate-800/60 rounded-lg p-2 border border-slate-700">
+          <label className="group relative w-24 aspect-video shrink-0 rounded overflow-hidden cursor-pointer bg-slate-900">
+            <img src={image.url} alt={image.name} className="w-full h-full object-cover" />
+            <span className="absolute top-1 left-1 bg-black/60 px-1 rounded text-[10px] font-mono">{sourceLabel(i)}</span>
+            <span className="absolute inset-0 flex items-center justify-center bg-black/50 opacity-0 group-hover:opacity-100 transition">
+              <Upload className="w-4 h-4 text-white" />
+            </span>
+            {fileInput(src => update(i, { image: src }))}
+          </label>
+
+          <div className="flex-1 min-w-0">
+            <p className="text-xs text-slate-300 truncate" title={image.name}>{image.name}</p>
+            {multi && !labelMap && (
+              <div className="mt-1 flex items-center gap-1 text-[10px] text-slate-500">
+                <label className="flex items-center gap-1 cursor-pointer hover:text-white transition" title="上传权重蒙版">
+                  {weight ? (
+                    <img src={weight.url} alt="Weight" className="w-8 h-5 object-cover rounded border border-slate-600" />
+                  ) : (
+                    <Scale className="w-3 h-3" />
+                  )}
+                  {weight ? '权重' : '等宽条带'}
+                  {fileInput(src => update(i, { weight: src }))}
+                </label>
+                {weight && (
+                  <button title="移除权重" onClick={() => update(i, { weight: null })} className="hover:text-white">
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col">
+            <button title="上移" onClick={() => move(i, -1)} disabled={i === 0} className={iconButton}>
+              <ChevronUp className="w-3.5 h-3.5" />
+            </button>
+            <button title="下移" onClick={() => move(i, 1)} disabled={i === sources.length - 1} className={iconButton}>
+              <ChevronDown className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <button title="移除" onClick={() => remove(i)} disabled={sources.length <= MIN_SOURCES} className={iconButton}>
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      <label className="flex items-center justify-center gap-2 py-2 rounded-lg border-2 border-dashed border-slate-700 hover:border-primary-500 text-xs text-slate-400 hover:text-white cursor-pointer transition">
+        <Plus className="w-4 h-4" /> 添加图像
+        <input type="file" className="hidden" accept="image/*" multiple onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} />
+      </label>
+
+      {multi && (
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <label className="flex items-center gap-2 cursor-pointer hover:text-white transition" title="像素值 k 选择第 k 张图像 (从 0 开始)">
+            <Tags className="w-4 h-4" />
+            {labelMap ? `标签图: ${labelMap.name}` : '上传标签图 (代替权重蒙版)'}
+            {fileInput(onLabelMapChange)}
+          </label>
+          {labelMap && (
+            <button title="移除标签图" onClick={() => onLabelMapChange(null)} className="hover:text-white">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourceList;
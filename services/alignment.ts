@@ -0,0 +1,471 @@
+import { AlignmentOptions, ControlPoint, RasterImage } from '../types';
+import { convolve, createRaster, FloatImage, gaussianKernel, Rect } from './pyramidCore';
+import { fft2d, nextPow2 } from './fft';
+import { hashWords } from './pyramidCache';
+
+/**
+ * Registration of B onto A (B already fitted to A's size).
+ * Every model is a 3x3 homography from A's frame to B's, in 0-1 fractions of width/height,
+ * so a transform estimated on the preview applies unchanged at full resolution.
+ *  - translation: phase correlation (peak of the normalized cross-power spectrum)
+ *  - homography: Harris corners, normalized patch descriptors, mutual ratio-test matches, RANSAC
+ *  - manual: least squares through the control points
+ */
+
+export const DEFAULT_ALIGNMENT: AlignmentOptions = { mode: 'none', points: [] };
+
+// Row-major 3x3; maps (x, y, 1) in A to homogeneous coordinates in B
+export type Homography = number[];
+
+export const IDENTITY: Homography = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+export type TransformModel = 'identity' | 'translation' | 'similarity' | 'affine' | 'homography';
+
+export interface AlignmentResult {
+  homography: Homography;
+  model: TransformModel;
+  matches?: number; // feature matches that passed the ratio test
+  inliers?: number; // matches consistent with the homography
+  fallback?: boolean; // too few inliers: phase correlation was used instead
+}
+
+// RANSAC settings, in preview pixels
+const RANSAC_ITERATIONS = 2000;
+const RANSAC_THRESHOLD = 3;
+const MIN_INLIERS = 8;
+// Corner detection
+const HARRIS_K = 0.04;
+const CORNER_MARGIN = 10; // keeps descriptor windows inside the image
+const GRID_CELLS = 8; // corners are picked per cell so they cover the whole frame
+const CORNERS_PER_CELL = 12;
+const MATCH_RATIO = 0.8; // best / second-best descriptor distance
+
+const mul3 = (m: Homography, n: Homography): Homography =>
+  Array.from({ length: 9 }, (_, k) => {
+    const [r, c] = [Math.floor(k / 3), k % 3];
+    return m[r * 3] * n[c] + m[r * 3 + 1] * n[3 + c] + m[r * 3 + 2] * n[6 + c];
+  });
+
+export const applyHomography = (h: Homography, x: number, y: number): [number, number] => {
+  const w = h[6] * x + h[7] * y + h[8];
+  return [(h[0] * x + h[1] * y + h[2]) / w, (h[3] * x + h[4] * y + h[5]) / w];
+};
+
+// Gaussian elimination with partial pivoting; null when singular
+const solveLinear = (m: number[][], rhs: number[]): number[] | null => {
+  const n = rhs.length;
+  const a = m.map((row, i) => [...row, rhs[i]]);
+  for (let c = 0; c < n; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(a[r][c]) > Math.abs(a[pivot][c])) pivot = r;
+    if (Math.abs(a[pivot][c]) < 1e-12) return null;
+    [a[c], a[pivot]] = [a[pivot], a[c]];
+    for (let r = 0; r < n; r++) {
+      if (r === c) continue;
+      const f = a[r][c] / a[c][c];
+      for (let k = c; k <= n; k++) a[r][k] -= f * a[c][k];
+    }
+  }
+  return a.map((row, i) => row[n] / row[i]);
+};
+
+interface Correspondence {
+  ax: number;
+  ay: number;
+  bx: number;
+  by: number;
+}
+
+// Fewest correspondences that pin each model down
+const MIN_POINTS: Record<Exclude<TransformModel, 'identity'>, number> = {
+  translation: 1,
+  similarity: 2,
+  affine: 3,
+  homography: 4,
+};
+
+// Linearized equations u = ..., v = ... per correspondence, and how the solution fills a homography
+const MODEL_ROWS: Record<Exclude<TransformModel, 'identity'>, {
+  rows: (x: number, y: number, u: number, v: number) => [number[], number][];
+  toHomography: (p: number[]) => Homography;
+}> = {
+  translation: {
+    rows: (x, y, u, v) => [[[1, 0], u - x], [[0, 1], v - y]],
+    toHomography: ([tx, ty]) => [1, 0, tx, 0, 1, ty, 0, 0, 1],
+  },
+  similarity: {
+    rows: (x, y, u, v) => [[[x, -y, 1, 0], u], [[y, x, 0, 1], v]],
+    toHomography: ([a, b, tx, ty]) => [a, -b, tx, b, a, ty, 0, 0, 1],
+  },
+  affine: {
+    rows: (x, y, u, v) => [[[x, y, 1, 0, 0, 0], u], [[0, 0, 0, x, y, 1], v]],
+    toHomography: (p) => [...p, 0, 0, 1],
+  },
+  homography: {
+    rows: (x, y, u, v) => [[[x, y, 1, 0, 0, 0, -x * u, -y * u], u], [[0, 0, 0, x, y, 1, -x * v, -y * v], v]],
+    toHomography: (p) => [...p, 1],
+  },
+};
+
+// Least squares (normal equations) after moving all points to zero mean and unit spread;
+// one shared normalization keeps every model in its class
+const fitModel = (pairs: Correspondence[], model: Exclude<TransformModel, 'identity'>): Homography | null => {
+  if (pairs.length < MIN_POINTS[model]) return null;
+  let cx = 0;
+  let cy = 0;
+  for (const p of pairs) { cx += p.ax + p.bx; cy += p.ay + p.by; }
+  cx /= 2 * pairs.length;
+  cy /= 2 * pairs.length;
+  let spread = 0;
+  for (const p of pairs) spread += Math.hypot(p.ax - cx, p.ay - cy) + Math.hypot(p.bx - cx, p.by - cy);
+  const s = spread > 0 ? (2 * pairs.length * Math.SQRT2) / spread : 1;
+  const T = [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1];
+  const Tinv = [1 / s, 0, cx, 0, 1 / s, cy, 0, 0, 1];
+
+  const { rows, toHomography } = MODEL_ROWS[model];
+  const size = rows(0, 0, 0, 0)[0][0].length;
+  const ata = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const atb = new Array<number>(size).fill(0);
+  for (const p of pairs) {
+    for (const [row, rhs] of rows(s * (p.ax - cx), s * (p.ay - cy), s * (p.bx - cx), s * (p.by - cy))) {
+      for (let i = 0; i < size; i++) {
+        atb[i] += row[i] * rhs;
+        for (let j = 0; j < size; j++) ata[i][j] += row[i] * row[j];
+      }
+    }
+  }
+  const solution = solveLinear(ata, atb);
+  return solution && mul3(Tinv, mul3(toHomography(solution), T));
+};
+
+// Pixel-space homography at width x height to the resolution-independent form
+const toUnitSpace = (h: Homography, width: number, height: number): Homography =>
+  mul3([1 / width, 0, 0, 0, 1 / height, 0, 0, 0, 1], mul3(h, [width, 0, 0, 0, height, 0, 0, 0, 1]));
+
+const luma = (img: FloatImage): Float32Array => {
+  const out = new Float32Array(img.r.length);
+  for (let p = 0; p < out.length; p++) out[p] = 0.299 * img.r[p] + 0.587 * img.g[p] + 0.114 * img.b[p];
+  return out;
+};
+
+const blurPlane = (plane: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  const img = new FloatImage(width, height);
+  img.r = plane;
+  return convolve(img, gaussianKernel(sigma)).r;
+};
+
+// Shift t such that B(p + t) ~ A(p), with sub-pixel refinement of the correlation peak
+export const phaseCorrelate = (a: FloatImage, b: FloatImage): { dx: number; dy: number } => {
+  const { width, height } = a;
+  const W = nextPow2(width);
+  const H = nextPow2(height);
+  const spectrum = (img: FloatImage) => {
+    const grey = luma(img);
+    let mean = 0;
+    for (const v of grey) mean += v;
+    mean /= grey.length;
+    const re = new Float64Array(W * H);
+    const im = new Float64Array(W * H);
+    // Hann window so the image borders do not dominate the spectrum
+    for (let y = 0; y < height; y++) {
+      const wy = 0.5 - 0.5 * Math.cos((2 * Math.PI * (y + 0.5)) / height);
+      for (let x = 0; x < width; x++) {
+        const wx = 0.5 - 0.5 * Math.cos((2 * Math.PI * (x + 0.5)) / width);
+        re[y * W + x] = (grey[y * width + x] - mean) * wx * wy;
+      }
+    }
+    fft2d(re, im, W, H);
+    return { re, im };
+  };
+  const fa = spectrum(a);
+  const fb = spectrum(b);
+
+  // Normalized cross-power spectrum B * conj(A); its inverse peaks at the shift
+  const re = new Float64Array(W * H);
+  const im = new Float64Array(W * H);
+  for (let k = 0; k < W * H; k++) {
+    const r = fb.re[k] * fa.re[k] + fb.im[k] * fa.im[k];
+    const i = fb.im[k] * fa.re[k] - fb.re[k] * fa.im[k];
+    const mag = Math.hypot(r, i) || 1;
+    re[k] = r / mag;
+    im[k] = i / mag;
+  }
+  fft2d(re, im, W, H, true);
+
+  let peak = 0;
+  for (let k = 1; k < W * H; k++) if (re[k] > re[peak]) peak = k;
+  const px = peak % W;
+  const py = (peak - px) / W;
+  const at = (x: number, y: number) => re[((y + H) % H) * W + ((x + W) % W)];
+  // Parabola through the peak and its neighbours
+  const refine = (l: number, c: number, r: number) => {
+    const d = l - 2 * c + r;
+    return d < 0 ? (0.5 * (l - r)) / d : 0;
+  };
+  const sx = px + refine(at(px - 1, py), at(px, py), at(px + 1, py));
+  const sy = py + refine(at(px, py - 1), at(px, py), at(px, py + 1));
+  // Shifts past half the padded size wrap around to negative
+  return { dx: sx > W / 2 ? sx - W : sx, dy: sy > H / 2 ? sy - H : sy };
+};
+
+interface Feature {
+  x: number;
+  y: number;
+  descriptor: Float32Array;
+}
+
+// Harris corners spread over a grid, each described by a normalized 8x8 patch of the blurred image
+const detectFeatures = (img: FloatImage): Feature[] => {
+  const { width, height } = img;
+  const grey = blurPlane(luma(img), width, height, 1);
+  const structure = new FloatImage(width, height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const gx = (grey[p + 1] - grey[p - 1]) / 2;
+      const gy = (grey[p + width] - grey[p - width]) / 2;
+      structure.r[p] = gx * gx;
+      structure.g[p] = gy * gy;
+      structure.b[p] = gx * gy;
+    }
+  }
+  const s = convolve(structure, gaussianKernel(1.5));
+  const response = new Float32Array(width * height);
+  let maxResponse = 0;
+  for (let p = 0; p < response.length; p++) {
+    const det = s.r[p] * s.g[p] - s.b[p] * s.b[p];
+    const trace = s.r[p] + s.g[p];
+    response[p] = det - HARRIS_K * trace * trace;
+    maxResponse = Math.max(maxResponse, response[p]);
+  }
+
+  // Local maxima above 1% of the strongest corner, best few per grid cell
+  const cells: { p: number; r: number }[][] = Array.from({ length: GRID_CELLS * GRID_CELLS }, () => []);
+  for (let y = CORNER_MARGIN; y < height - CORNER_MARGIN; y++) {
+    for (let x = CORNER_MARGIN; x < width - CORNER_MARGIN; x++) {
+      const p = y * width + x;
+      const r = response[p];
+      if (r <= 0.01 * maxResponse) continue;
+      let isMax = true;
+      for (let dy = -2; dy <= 2 && isMax; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          if ((dx || dy) && response[p + dy * width + dx] > r) { isMax = false; break; }
+        }
+      }
+      if (!isMax) continue;
+      const cell = Math.floor((y * GRID_CELLS) / height) * GRID_CELLS + Math.floor((x * GRID_CELLS) / width);
+      cells[cell].push({ p, r });
+    }
+  }
+
+  const smooth = blurPlane(luma(img), width, height, 2);
+  const features: Feature[] = [];
+  for (const cell of cells) {
+    for (const { p } of cell.sort((u, v) => v.r - u.r).slice(0, CORNERS_PER_CELL)) {
+      const x = p % width;
+      const y = (p - x) / width;
+      const d = new Float32Array(64);
+      let mean = 0;
+      for (let j = 0; j < 8; j++) {
+        for (let i = 0; i < 8; i++) {
+          d[j * 8 + i] = smooth[(y - 7 + 2 * j) * width + (x - 7 + 2 * i)];
+          mean += d[j * 8 + i];
+        }
+      }
+      mean /= 64;
+      let norm = 0;
+      for (let k = 0; k < 64; k++) { d[k] -= mean; norm += d[k] * d[k]; }
+      if (norm < 1e-6) continue;
+      norm = Math.sqrt(norm);
+      for (let k = 0; k < 64; k++) d[k] /= norm;
+      features.push({ x: x + 0.5, y: y + 0.5, descriptor: d });
+    }
+  }
+  return features;
+};
+
+// Nearest neighbour of each feature, if clearly better than the runner-up
+const nearest = (from: Feature[], to: Feature[]): Int32Array => {
+  const out = new Int32Array(from.length).fill(-1);
+  from.forEach((f, i) => {
+    let best = Infinity;
+    let second = Infinity;
+    let bestIndex = -1;
+    to.forEach((g, j) => {
+      let dist = 0;
+      for (let k = 0; k < 64; k++) {
+        const d = f.descriptor[k] - g.descriptor[k];
+        dist += d * d;
+      }
+      if (dist < best) { second = best; best = dist; bestIndex = j; }
+      else if (dist < second) second = dist;
+    });
+    if (best < MATCH_RATIO * MATCH_RATIO * second) out[i] = bestIndex;
+  });
+  return out;
+};
+
+export const matchFeatures = (a: FloatImage, b: FloatImage): Correspondence[] => {
+  const fa = detectFeatures(a);
+  const fb = detectFeatures(b);
+  const ab = nearest(fa, fb);
+  const ba = nearest(fb, fa);
+  const pairs: Correspondence[] = [];
+  ab.forEach((j, i) => {
+    if (j >= 0 && ba[j] === i) pairs.push({ ax: fa[i].x, ay: fa[i].y, bx: fb[j].x, by: fb[j].y });
+  });
+  return pairs;
+};
+
+const inliersOf = (h: Homography, pairs: Correspondence[]): Correspondence[] =>
+  pairs.filter(p => {
+    const [u, v] = applyHomography(h, p.ax, p.ay);
+    return Math.hypot(u - p.bx, v - p.by) < RANSAC_THRESHOLD;
+  });
+
+// Seeded, so the same inputs always give the same alignment
+const random = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 2 ** 32;
+};
+
+export const ransacHomography = (pairs: Correspondence[]): { homography: Homography; inliers: number } | null => {
+  if (pairs.length < MIN_INLIERS) return null;
+  const next = random(pairs.length);
+  let best: Correspondence[] = [];
+  for (let it = 0; it < RANSAC_ITERATIONS; it++) {
+    const sample = new Set<number>();
+    while (sample.size < 4) sample.add(Math.floor(next() * pairs.length));
+    const h = fitModel([...sample].map(i => pairs[i]), 'homography');
+    if (!h) continue;
+    const inliers = inliersOf(h, pairs);
+    if (inliers.length > best.length) best = inliers;
+  }
+  if (best.length < MIN_INLIERS) return null;
+  // Refit on the consensus set, then take the final consensus with that fit
+  const refit = fitModel(best, 'homography');
+  if (!refit) return null;
+  const inliers = inliersOf(refit, pairs);
+  const homography = inliers.length >= MIN_INLIERS ? fitModel(inliers, 'homography') ?? refit : refit;
+  return { homography, inliers: inliers.length };
+};
+
+// Control points: the richest model their count supports
+export const fitControlPoints = (points: ControlPoint[]): AlignmentResult => {
+  const pairs = points.map(({ a, b }) => ({ ax: a.x, ay: a.y, bx: b.x, by: b.y }));
+  const model = (['homography', 'affine', 'similarity', 'translation'] as const).find(m => pairs.length >= MIN_POINTS[m]);
+  const homography = model && fitModel(pairs, model);
+  return homography ? { homography, model: model! } : { homography: IDENTITY, model: 'identity' };
+};
+
+// Estimate on preview-sized images; the result is resolution independent
+export const estimateAlignment = (a: FloatImage, b: FloatImage, options: AlignmentOptions): AlignmentResult => {
+  const { width, height } = a;
+  const translation = (): AlignmentResult => {
+    const { dx, dy } = phaseCorrelate(a, b);
+    return { homography: toUnitSpace([1, 0, dx, 0, 1, dy, 0, 0, 1], width, height), model: 'translation' };
+  };
+  switch (options.mode) {
+    case 'none':
+      return { homography: IDENTITY, model: 'identity' };
+    case 'manual':
+      return fitControlPoints(options.points);
+    case 'translation':
+      return translation();
+    case 'homography': {
+      const pairs = matchFeatures(a, b);
+      const found = ransacHomography(pairs);
+      if (!found) return { ...translation(), matches: pairs.length, fallback: true };
+      return {
+        homography: toUnitSpace(found.homography, width, height),
+        model: 'homography',
+        matches: pairs.length,
+        inliers: found.inliers,
+      };
+    }
+  }
+};
+
+// Cache key of an estimate: the mode and the pixels of both sources, or for control points
+// only the points
+export const alignmentKey = (a: RasterImage, b: RasterImage, { mode, points }: AlignmentOptions): string => {
+  if (mode === 'manual') return JSON.stringify([mode, points]);
+  const words = [a, b].map(({ data }) => new Uint32Array(data.buffer, data.byteOffset, data.length / 4));
+  return JSON.stringify([mode, a.width, a.height, hashWords(words)]);
+};
+
+// Inverse-map every pixel of `region` (in A's width x height frame) into an sw x sh image B.
+// `sample` gets the pixel's index in the region, B's four neighbouring pixels and the bilinear
+// weights, or i00 = -1 where the pixel maps outside B.
+const inverseMap = (
+  h: Homography, width: number, height: number, sw: number, sh: number, region: Rect,
+  sample: (p: number, i00: number, i10: number, i01: number, i11: number, fx: number, fy: number) => void
+) => {
+  for (let y = 0; y < region.height; y++) {
+    for (let x = 0; x < region.width; x++) {
+      const p = y * region.width + x;
+      const [u, v] = applyHomography(h, (region.x + x + 0.5) / width, (region.y + y + 0.5) / height);
+      const sx = u * sw - 0.5;
+      const sy = v * sh - 0.5;
+      if (!(sx > -1 && sy > -1 && sx < sw && sy < sh)) {
+        sample(p, -1, -1, -1, -1, 0, 0);
+        continue;
+      }
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const cx0 = Math.max(0, x0);
+      const cy0 = Math.max(0, y0);
+      const cx1 = Math.min(sw - 1, x0 + 1);
+      const cy1 = Math.min(sh - 1, y0 + 1);
+      sample(p, cy0 * sw + cx0, cy0 * sw + cx1, cy1 * sw + cx0, cy1 * sw + cx1, sx - x0, sy - y0);
+    }
+  }
+};
+
+// Inverse warp of B into A's frame (bilinear); pixels that map outside B become transparent
+export const warpImage = (img: FloatImage, h: Homography, width: number, height: number): FloatImage => {
+  const out = new FloatImage(width, height);
+  const src = img.channels();
+  const dst = out.channels();
+  inverseMap(h, width, height, img.width, img.height, { x: 0, y: 0, width, height }, (p, i00, i10, i01, i11, fx, fy) => {
+    for (let c = 0; c < dst.length; c++) {
+      const s = src[c];
+      dst[c][p] = i00 < 0 ? 0 : (s[i00] * (1 - fx) + s[i10] * fx) * (1 - fy) + (s[i01] * (1 - fx) + s[i11] * fx) * fy;
+    }
+  });
+  return out;
+};
+
+// Same on RGBA8, for one region of A's frame at a time (full-resolution tiles): no float copy
+// of B is made
+export const warpRaster = (
+  img: RasterImage, h: Homography, width: number, height: number, region: Rect = { x: 0, y: 0, width, height }
+): RasterImage => {
+  const out = createRaster(region.width, region.height);
+  const src = img.data;
+  inverseMap(h, width, height, img.width, img.height, region, (p, i00, i10, i01, i11, fx, fy) => {
+    if (i00 < 0) return;
+    for (let c = 0; c < 4; c++) {
+      out.data[p * 4 + c] = (src[i00 * 4 + c] * (1 - fx) + src[i10 * 4 + c] * fx) * (1 - fy)
+        + (src[i01 * 4 + c] * (1 - fx) + src[i11 * 4 + c] * fx) * fy;
+    }
+  });
+  return out;
+};
+
+// Where warped B has no data, A is used whatever the mask says
+export const fillUncovered = (mask: RasterImage, warpedB: RasterImage): RasterImage => {
+  const out = { ...mask, data: new Uint8ClampedArray(mask.data) };
+  for (let i = 0; i < out.data.length; i += 4) {
+    const v = Math.max(out.data[i], 255 - warpedB.data[i + 3]);
+    out.data[i] = out.data[i + 1] = out.data[i + 2] = v;
+  }
+  return out;
+};
+
+// Share of A's frame that warped B covers
+export const overlapFraction = (warpedB: RasterImage): number => {
+  let covered = 0;
+  for (let i = 3; i < warpedB.data.length; i += 4) if (warpedB.data[i] > 0) covered++;
+  return covered / (warpedB.width * warpedB.height);
+};
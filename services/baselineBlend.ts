@@ -0,0 +1,86 @@
+import {
+  combine, convolve, FloatImage, gaussianKernel, premultiply, PyramidBlendResult, unpremultiply
+} from './pyramidCore';
+
+/**
+ * Reference blends that multi-band blending is usually compared against.
+ * All of them return the same shape as blendPyramids so the UI can show them side by side;
+ * two-band fills the pyramids with its two bands, the others leave them empty.
+ */
+
+// Default feather width: 2% of the longer side, at least one pixel
+export const defaultFeatherSigma = (width: number, height: number): number =>
+  Math.max(1, 0.02 * Math.max(width, height));
+
+// out = A * w + B * (1 - w) per channel, with w taken from mask.r (0-255)
+const composite = (a: FloatImage, b: FloatImage, weight: FloatImage, binary = false): FloatImage => {
+  const out = new FloatImage(a.width, a.height);
+  const [pa, pb, dst] = [a.channels(), b.channels(), out.channels()];
+  for (let p = 0; p < out.r.length; p++) {
+    const w = binary ? (weight.r[p] >= 127.5 ? 1 : 0) : weight.r[p] / 255;
+    for (let c = 0; c < dst.length; c++) {
+      dst[c][p] = pa[c][p] * w + pb[c][p] * (1 - w);
+    }
+  }
+  return out;
+};
+
+// Float counterpart of blendMethods' onlyResult, for the methods without stages
+const withoutStages = (result: FloatImage): PyramidBlendResult => ({
+  result,
+  laplacians: [],
+  gaussiansA: [],
+  gaussiansB: [],
+  gaussiansMask: [],
+  laplaciansA: [],
+  laplaciansB: [],
+  reconstruction: [],
+});
+
+export const hardCutBlend = (imgA: FloatImage, imgB: FloatImage, mask: FloatImage): PyramidBlendResult =>
+  withoutStages(composite(imgA, imgB, mask, true));
+
+export const featherBlend = (imgA: FloatImage, imgB: FloatImage, mask: FloatImage, sigma: number): PyramidBlendResult => {
+  const soft = convolve(mask, gaussianKernel(sigma), 'replicate');
+  return withoutStages(unpremultiply(composite(premultiply(imgA), premultiply(imgB), soft)));
+};
+
+// Brown & Lowe (2007): low frequencies blended with the feathered mask, high
+// frequencies switched by the hard mask
+export const twoBandBlend = (imgA: FloatImage, imgB: FloatImage, mask: FloatImage, sigma: number): PyramidBlendResult => {
+  const kernel = gaussianKernel(sigma);
+  const A = premultiply(imgA);
+  const B = premultiply(imgB);
+  const lowA = convolve(A, kernel, 'reflect');
+  const lowB = convolve(B, kernel, 'reflect');
+  const softMask = convolve(mask, kernel, 'replicate');
+  const highA = combine(A, lowA, -1);
+  const highB = combine(B, lowB, -1);
+  const low = composite(lowA, lowB, softMask);
+  const high = composite(highA, highB, mask, true);
+  const result = unpremultiply(combine(low, high, 1));
+  return {
+    result,
+    laplacians: [high, low],
+    gaussiansA: [imgA, unpremultiply(lowA)],
+    gaussiansB: [imgB, unpremultiply(lowB)],
+    gaussiansMask: [mask, softMask],
+    laplaciansA: [highA, lowA],
+    laplaciansB: [highB, lowB],
+    reconstruction: [result, unpremultiply(low)],
+  };
+};
+
+export type BaselineMethod = 'hard-cut' | 'feather' | 'two-band';
+
+export const baselineBlend = (
+  method: BaselineMethod,
+  imgA: FloatImage,
+  imgB: FloatImage,
+  mask: FloatImage,
+  sigma: number = defaultFeatherSigma(imgA.width, imgA.height)
+): PyramidBlendResult => {
+  if (method === 'hard-cut') return hardCutBlend(imgA, imgB, mask);
+  if (method === 'feather') return featherBlend(imgA, imgB, mask, sigma);
+  return twoBandBlend(imgA, imgB, mask, sigma);
+};
@@ -0,0 +1,60 @@
+import { BlendMethod, RasterImage } from '../types';
+import { blendImageData, BlendOptions, FloatImage, RasterBlendResult, rasterizeResult } from './pyramidCore';
+import { blendImageDataTiled, regionOfB, TiledBlendOptions } from './tiledBlend';
+import { poissonBlendImageData } from './poissonBlend';
+import { baselineBlend } from './baselineBlend';
+
+/**
+ * Single entry point for every blend method, all returning the RasterBlendResult shape.
+ * Used by the worker and anything else that wants to switch methods by name.
+ */
+
+// Full-resolution renders can leave the preparation of B to the blend (see TiledBlendOptions)
+export interface RunBlendOptions extends BlendOptions, Pick<TiledBlendOptions, 'homography' | 'compensation'> {
+  tileSize?: number; // pyramid only: render in tiles and return just the result
+}
+
+// Tiled and non-pyramid renders have no intermediate stages
+export const onlyResult = (image: RasterImage): RasterBlendResult => ({
+  result: image,
+  laplacians: [],
+  gaussiansA: [],
+  gaussiansB: [],
+  gaussiansMask: [],
+  laplaciansA: [],
+  laplaciansB: [],
+  reconstruction: [],
+});
+
+export const runBlend = (
+  a: RasterImage,
+  b: RasterImage,
+  mask: RasterImage,
+  levels: number,
+  options: RunBlendOptions = {}
+): RasterBlendResult => {
+  const { method = 'pyramid', tileSize, homography, compensation, ...blendOptions } = options;
+  if (method === 'pyramid' && tileSize) {
+    return onlyResult(blendImageDataTiled(a, b, mask, levels, { ...blendOptions, tileSize, homography, compensation }));
+  }
+  // Untiled: prepare B over the whole frame first
+  if (homography || compensation) {
+    ({ b, mask } = regionOfB(b, mask, { x: 0, y: 0, width: a.width, height: a.height }, { homography, compensation }));
+  }
+  switch (method) {
+    case 'pyramid':
+      return blendImageData(a, b, mask, levels, blendOptions);
+    case 'poisson':
+      // The Poisson solve is global, so it always runs on the whole image
+      return onlyResult(poissonBlendImageData(a, b, mask, { ...blendOptions.poisson, onProgress: blendOptions.onProgress }));
+    default: {
+      const [A, B, M] = [a, b, mask].map(FloatImage.fromImageData);
+      const out = rasterizeResult(baselineBlend(method, A, B, M, blendOptions.featherSigma));
+      blendOptions.onProgress?.({ stage: 'blend', level: 0, levels: 0, fraction: 1 });
+      return out;
+    }
+  }
+};
+
+// Methods shown in the comparison view, simplest first
+export const COMPARISON_METHODS: BlendMethod[] = ['hard-cut', 'feather', 'two-band', 'pyramid'];
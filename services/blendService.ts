@@ -0,0 +1,175 @@
+import { AlignmentOptions, BlendProgress, RasterImage, SeamOptions } from '../types';
+import type { BlendJob, BlendWorkerMessage, BlendWorkerRequest, JobResults, PairBlendJob, WorkerJob } from './blendWorker';
+import type { MultiBlendOptions } from './multiBlend';
+import type { SeamResult } from './seamFinder';
+import type { AlignmentResult } from './alignment';
+import { BlendOptions, FloatImage, RasterBlendResult } from './pyramidCore';
+
+/**
+ * Main-thread client for the blend worker.
+ * A job can be aborted with an AbortSignal; since the blend is one synchronous loop inside
+ * the worker, aborting terminates the worker and the next job starts a fresh one. Jobs marked
+ * `keepWorker` are only dropped instead: the worker is told to skip them if they have not
+ * started yet, otherwise finishes them unseen, and keeps its pyramid cache for the next job.
+ * Preview and export jobs run on separate workers so cancelling one never kills the other.
+ * Registration estimates and seam searches run on the preview worker, which keeps the last of
+ * each for the next preview and for exports.
+ */
+
+export interface WorkerBlendOptions extends Omit<BlendOptions, 'onProgress' | 'pyramidCache' | 'pyramidBackend'> {
+  signal?: AbortSignal;
+  onProgress?: (progress: BlendProgress) => void;
+  keepWorker?: boolean; // on abort, let the worker run the job to completion (live previews)
+}
+
+type WorkerLane = 'preview' | 'export';
+
+const workers: Record<WorkerLane, Worker | null> = { preview: null, export: null };
+let nextJobId = 1;
+
+const getWorker = (lane: WorkerLane): Worker => {
+  let w = workers[lane];
+  if (!w) {
+    w = new Worker(new URL('./blendWorker.ts', import.meta.url), { type: 'module' });
+    workers[lane] = w;
+  }
+  return w;
+};
+
+const abortError = () => new DOMException('Blend job was aborted', 'AbortError');
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+// Float bands arrive as plain objects; give them their methods back
+const reviveBands = (out: RasterBlendResult): RasterBlendResult => ({
+  ...out,
+  laplacians: out.laplacians.map(FloatImage.fromPlanes),
+  laplaciansA: out.laplaciansA.map(FloatImage.fromPlanes),
+  laplaciansB: out.laplaciansB.map(FloatImage.fromPlanes),
+});
+
+type JobControl = Pick<WorkerBlendOptions, 'signal' | 'onProgress' | 'keepWorker'>;
+
+const runJob = <J extends WorkerJob>(job: J, lane: WorkerLane, { signal, onProgress, keepWorker }: JobControl): Promise<JobResults[J['kind']]> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  return new Promise((resolve, reject) => {
+    const w = getWorker(lane);
+    const id = nextJobId++;
+
+    const cleanup = () => {
+      w.removeEventListener('message', onMessage);
+      w.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onMessage = (e: MessageEvent<BlendWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.id !== id) return;
+      if (msg.type === 'progress') {
+        onProgress?.(msg.progress);
+      } else if (msg.type === 'done') {
+        cleanup();
+        resolve(msg.result as JobResults[J['kind']]);
+      } else {
+        cleanup();
+        reject(new Error(msg.message));
+      }
+    };
+
+    const onError = (e: ErrorEvent) => {
+      cleanup();
+      reject(new Error(e.message || 'Blend worker failed'));
+    };
+
+    const onAbort = () => {
+      cleanup();
+      if (keepWorker) {
+        const cancel: BlendWorkerRequest = { kind: 'cancel', id };
+        w.postMessage(cancel);
+      } else {
+        // Drop the busy worker; the next job spins up a new one
+        w.terminate();
+        if (workers[lane] === w) workers[lane] = null;
+      }
+      reject(abortError());
+    };
+
+    w.addEventListener('message', onMessage);
+    w.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+    const request: BlendWorkerRequest = { ...job, id };
+    w.postMessage(request);
+  });
+};
+
+export const blendInWorker = (
+  a: RasterImage,
+  b: RasterImage,
+  mask: RasterImage,
+  levels: number,
+  options: WorkerBlendOptions = {}
+): Promise<RasterBlendResult> => {
+  const { signal, onProgress, keepWorker, ...blendOptions } = options;
+  return runJob({ kind: 'pair', a, b, mask, levels, options: blendOptions }, 'preview', { signal, onProgress, keepWorker })
+    .then(reviveBands);
+};
+
+// Native-resolution render for export, processed in overlapping tiles inside the worker
+export const blendFullResInWorker = async (
+  a: RasterImage,
+  b: RasterImage,
+  mask: RasterImage,
+  levels: number,
+  options: WorkerBlendOptions & Pick<PairBlendJob, 'tileSize' | 'homography' | 'compensation'> = {}
+): Promise<RasterImage> => {
+  const { tileSize = 1024, homography, compensation, signal, onProgress, keepWorker, ...blendOptions } = options;
+  const job: BlendJob = { kind: 'pair', a, b, mask, levels, options: blendOptions, tileSize, homography, compensation };
+  const out = await runJob(job, 'export', { signal, onProgress, keepWorker });
+  return out.result;
+};
+
+export interface WorkerMultiBlendOptions extends Omit<MultiBlendOptions, 'onProgress'>, JobControl {}
+
+// N-image blend; the weights are normalized per level inside the worker
+export const blendManyInWorker = (
+  images: RasterImage[],
+  weights: RasterImage[],
+  levels: number,
+  options: WorkerMultiBlendOptions = {}
+): Promise<RasterBlendResult> => {
+  const { signal, onProgress, keepWorker, ...blendOptions } = options;
+  return runJob({ kind: 'multi', images, weights, levels, options: blendOptions }, 'preview', { signal, onProgress, keepWorker })
+    .then(reviveBands);
+};
+
+// Native-resolution N-image render for export, in overlapping tiles like blendFullResInWorker
+export const blendManyFullResInWorker = async (
+  images: RasterImage[],
+  weights: RasterImage[],
+  levels: number,
+  options: WorkerMultiBlendOptions & { tileSize?: number } = {}
+): Promise<RasterImage> => {
+  const { tileSize = 1024, signal, onProgress, keepWorker, ...blendOptions } = options;
+  const out = await runJob({ kind: 'multi', images, weights, levels, options: blendOptions, tileSize }, 'export', { signal, onProgress, keepWorker });
+  return out.result;
+};
+
+// Automatic seam on preview-size inputs (see seamFinder). A superseded search is left to finish,
+// like a live preview, so the worker keeps its cache
+export const findSeamInWorker = (
+  a: RasterImage,
+  b: RasterImage,
+  prior: RasterImage,
+  options: SeamOptions,
+  { signal }: Pick<JobControl, 'signal'> = {}
+): Promise<SeamResult> => runJob({ kind: 'seam', a, b, prior, options }, 'preview', { signal, keepWorker: true });
+
+// Registration of preview-size B onto A (see estimateAlignment), kept by the worker like seams
+export const estimateAlignmentInWorker = (
+  a: RasterImage,
+  b: RasterImage,
+  options: AlignmentOptions,
+  { signal }: Pick<JobControl, 'signal'> = {}
+): Promise<AlignmentResult> => runJob({ kind: 'align', a, b, options }, 'preview', { signal, keepWorker: true });
@@ -0,0 +1,220 @@
+import { AlignmentOptions, BlendProgress, RasterImage, SeamOptions } from '../types';
+import { BlendOptions, FloatImage, PyramidBackend, RasterBlendResult } from './pyramidCore';
+import { onlyResult, runBlend } from './blendMethods';
+import { blendManyImageData, MultiBlendOptions } from './multiBlend';
+import { blendManyImageDataTiled } from './tiledBlend';
+import { PyramidCache } from './pyramidCache';
+import { createWebGL2Backend } from './gpuPyramid';
+import { measureBlend, measurePairBlend } from './metrics';
+import { findSeam, seamKey, SeamResult } from './seamFinder';
+import type { PhotometricResult } from './photometric';
+import { AlignmentResult, alignmentKey, estimateAlignment, Homography } from './alignment';
+
+/**
+ * Web Worker entry: runs blends (any method, see runBlend) off the main thread.
+ * Every job carries an id so the client can ignore messages from jobs it has dropped, and
+ * can cancel a dropped job that is still queued here: jobs wait in a queue and the worker
+ * yields between them, so cancels posted while one job runs are seen before the next starts.
+ * A/B pyramids of untiled pair blends are cached for as long as this worker lives.
+ * Pair jobs asking for the WebGL2 backend run on an OffscreenCanvas context and fall back
+ * to the CPU when there is none or the GPU run fails; the result's `backend` tells which ran.
+ * Every blend but a tiled export is followed by its quality metrics.
+ * Registration estimates and seam searches run here too, so feature matching or a slow graph
+ * cut never blocks the page; the last of each is kept and reused while its inputs (see
+ * alignmentKey and seamKey) stay the same.
+ */
+
+export interface PairBlendJob {
+  kind: 'pair';
+  a: RasterImage;
+  b: RasterImage;
+  mask: RasterImage;
+  levels: number;
+  options: Omit<BlendOptions, 'onProgress' | 'pyramidCache' | 'pyramidBackend'>;
+  // When set, render at full resolution in tiles of this size; only `result` is returned
+  tileSize?: number;
+  // Full-resolution renders: B is sent in its own frame and registered here per tile, then
+  // matched with the exposure mapping fitted on the preview
+  homography?: Homography;
+  compensation?: PhotometricResult;
+}
+
+// N sources with one weight map each (see multiBlend)
+export interface MultiBlendJob {
+  kind: 'multi';
+  images: RasterImage[];
+  weights: RasterImage[];
+  levels: number;
+  options: Omit<MultiBlendOptions, 'onProgress'>;
+  tileSize?: number; // as for pair jobs
+}
+
+export type BlendJob = PairBlendJob | MultiBlendJob;
+
+// Automatic seam between preview-size A and B inside the prior's transition band
+export interface SeamJob {
+  kind: 'seam';
+  a: RasterImage;
+  b: RasterImage;
+  prior: RasterImage;
+  options: SeamOptions;
+}
+
+// Registration of preview-size B (fitted to A's size) onto A
+export interface AlignJob {
+  kind: 'align';
+  a: RasterImage;
+  b: RasterImage;
+  options: AlignmentOptions;
+}
+
+export type WorkerJob = BlendJob | SeamJob | AlignJob;
+
+export interface JobResults {
+  pair: RasterBlendResult;
+  multi: RasterBlendResult;
+  seam: SeamResult;
+  align: AlignmentResult;
+}
+
+export type BlendJobRequest = WorkerJob & { id: number };
+
+// Skip a queued job the client no longer wants (a running job cannot be interrupted)
+export interface BlendCancelRequest {
+  kind: 'cancel';
+  id: number;
+}
+
+export type BlendWorkerRequest = BlendJobRequest | BlendCancelRequest;
+
+export type BlendWorkerMessage =
+  | { type: 'progress'; id: number; progress: BlendProgress }
+  | { type: 'done'; id: number; result: JobResults[WorkerJob['kind']] }
+  | { type: 'error'; id: number; message: string };
+
+const post = (msg: BlendWorkerMessage, transfer: Transferable[] = []) => {
+  self.postMessage(msg, { transfer });
+};
+
+const pyramidCache = new PyramidCache();
+let seamCache: { key: string; result: SeamResult } | null = null;
+let alignCache: { key: string; result: AlignmentResult } | null = null;
+
+// Created on first request; null when this worker has no usable WebGL2
+let gpuBackend: PyramidBackend | null | undefined;
+
+const getGpuBackend = (): PyramidBackend | null => {
+  if (gpuBackend === undefined) {
+    try {
+      const gl = new OffscreenCanvas(1, 1).getContext('webgl2');
+      gpuBackend = gl ? createWebGL2Backend(gl) : null;
+    } catch (err) {
+      console.warn('WebGL2 backend unavailable, using the CPU', err);
+      gpuBackend = null;
+    }
+  }
+  return gpuBackend;
+};
+
+const runPairJob = (job: PairBlendJob, onProgress: (progress: BlendProgress) => void): RasterBlendResult => {
+  const options = {
+    ...job.options,
+    tileSize: job.tileSize,
+    homography: job.homography,
+    compensation: job.compensation,
+    // Tiles are never blended twice, so caching them would only evict useful entries
+    pyramidCache: job.tileSize ? undefined : pyramidCache,
+    onProgress,
+  };
+  const gpu = job.options.backend === 'webgl2' ? getGpuBackend() : null;
+  if (gpu) {
+    try {
+      return runBlend(job.a, job.b, job.mask, job.levels, { ...options, pyramidBackend: gpu });
+    } catch (err) {
+      console.warn('WebGL2 blend failed, retrying on the CPU', err);
+    }
+  }
+  return runBlend(job.a, job.b, job.mask, job.levels, options);
+};
+
+const runJob = (job: BlendJob, onProgress: (progress: BlendProgress) => void): RasterBlendResult => {
+  if (job.kind === 'multi') {
+    if (job.tileSize) {
+      return onlyResult(blendManyImageDataTiled(job.images, job.weights, job.levels, { ...job.options, tileSize: job.tileSize, onProgress }));
+    }
+    const out = blendManyImageData(job.images, job.weights, job.levels, { ...job.options, onProgress });
+    return { ...out, metrics: measureBlend(out.result, job.images, job.weights) };
+  }
+  const out = runPairJob(job, onProgress);
+  return job.tileSize ? out : { ...out, metrics: measurePairBlend(out.result, job.a, job.b, job.mask) };
+};
+
+const runSeamJob = ({ a, b, prior, options }: SeamJob): SeamResult => {
+  const key = seamKey(a, b, prior, options);
+  if (seamCache?.key !== key) seamCache = { key, result: findSeam(a, b, prior, options) };
+  return seamCache.result;
+};
+
+const runAlignJob = ({ a, b, options }: AlignJob): AlignmentResult => {
+  const key = alignmentKey(a, b, options);
+  if (alignCache?.key !== key) {
+    alignCache = { key, result: estimateAlignment(FloatImage.fromImageData(a), FloatImage.fromImageData(b), options) };
+  }
+  return alignCache.result;
+};
+
+const runRequest = ({ id, ...job }: BlendJobRequest) => {
+  const onProgress = (progress: BlendProgress) => post({ type: 'progress', id, progress });
+  try {
+    // Cached results are copied, never transferred
+    if (job.kind === 'seam') {
+      post({ type: 'done', id, result: runSeamJob(job) });
+      return;
+    }
+    if (job.kind === 'align') {
+      post({ type: 'done', id, result: runAlignJob(job) });
+      return;
+    }
+    const result = runJob(job, onProgress);
+    const images = [result.result, ...result.gaussiansA, ...result.gaussiansB, ...result.gaussiansMask, ...result.reconstruction];
+    if (result.metrics) images.push(result.metrics.heatmap);
+    const bands = [...result.laplacians, ...result.laplaciansA, ...result.laplaciansB];
+    // A stage can appear in more than one list; each buffer may only be transferred once
+    const buffers = new Set<ArrayBuffer>([
+      ...images.map(r => r.data.buffer as ArrayBuffer),
+      ...bands.flatMap(f => f.channels().map(c => c.buffer as ArrayBuffer)),
+    ]);
+    post({ type: 'done', id, result }, [...buffers]);
+  } catch (err) {
+    post({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+const queue: BlendJobRequest[] = [];
+let scheduled = false;
+
+// One job per task, so cancel messages that arrived during a job are handled before the next
+const runNext = () => {
+  const request = queue.shift();
+  if (!request) {
+    scheduled = false;
+    return;
+  }
+  runRequest(request);
+  setTimeout(runNext, 0);
+};
+
+self.onmessage = (e: MessageEvent<BlendWorkerRequest>) => {
+  const request = e.data;
+  if (request.kind === 'cancel') {
+    // Not queued: it already ran and the client ignores its reply
+    const i = queue.findIndex(job => job.id === request.id);
+    if (i >= 0) queue.splice(i, 1);
+    return;
+  }
+  queue.push(request);
+  if (!scheduled) {
+    scheduled = true;
+    setTimeout(runNext, 0);
+  }
+};
@@ -0,0 +1,122 @@
+import { ColorSpace } from '../types';
+import { FloatImage } from './pyramidCore';
+
+/**
+ * Colour space conversions for blending.
+ * Every space is scaled so its channels sit roughly in 0-255, which keeps the pyramid
+ * visualizations and band gains meaningful whichever space the blend runs in.
+ * Channel 0 is always the luminance-like channel; 1 and 2 carry chroma for Lab / YCbCr.
+ */
+
+const srgbToLinear = (v: number): number => {
+  const c = v / 255;
+  return 255 * (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+};
+
+const linearToSrgb = (v: number): number => {
+  const c = Math.max(0, v / 255);
+  return 255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+};
+
+// D65 reference white
+const XN = 0.95047;
+const YN = 1.0;
+const ZN = 1.08883;
+const LAB_EPS = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+const labF = (t: number): number => (t > LAB_EPS ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116);
+const labFInv = (f: number): number => {
+  const t = f * f * f;
+  return t > LAB_EPS ? t : (116 * f - 16) / LAB_KAPPA;
+};
+
+// Writes (L * 2.55, a + 128, b + 128) for an sRGB pixel
+const rgbToLab = (r: number, g: number, b: number, out: number[]) => {
+  const lr = srgbToLinear(r) / 255;
+  const lg = srgbToLinear(g) / 255;
+  const lb = srgbToLinear(b) / 255;
+  const fx = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / XN);
+  const fy = labF((0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb) / YN);
+  const fz = labF((0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / ZN);
+  out[0] = (116 * fy - 16) * 2.55;
+  out[1] = 500 * (fx - fy) + 128;
+  out[2] = 200 * (fy - fz) + 128;
+};
+
+const labToRgb = (l: number, a: number, b: number, out: number[]) => {
+  const fy = (l / 2.55 + 16) / 116;
+  const fx = fy + (a - 128) / 500;
+  const fz = fy - (b - 128) / 200;
+  const x = labFInv(fx) * XN;
+  const y = labFInv(fy) * YN;
+  const z = labFInv(fz) * ZN;
+  out[0] = linearToSrgb(255 * (3.2404542 * x - 1.5371385 * y - 0.4985314 * z));
+  out[1] = linearToSrgb(255 * (-0.9692660 * x + 1.8760108 * y + 0.0415560 * z));
+  out[2] = linearToSrgb(255 * (0.0556434 * x - 0.2040259 * y + 1.0572252 * z));
+};
+
+// Full-range BT.601 (JPEG) YCbCr
+const rgbToYcbcr = (r: number, g: number, b: number, out: number[]) => {
+  out[0] = 0.299 * r + 0.587 * g + 0.114 * b;
+  out[1] = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  out[2] = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+};
+
+const ycbcrToRgb = (y: number, cb: number, cr: number, out: number[]) => {
+  out[0] = y + 1.402 * (cr - 128);
+  out[1] = y - 0.344136 * (cb - 128) - 0.714136 * (cr - 128);
+  out[2] = y + 1.772 * (cb - 128);
+};
+
+const mapPixels = (img: FloatImage, fn: (r: number, g: number, b: number, out: number[]) => void): FloatImage => {
+  const out = new FloatImage(img.width, img.height);
+  const px = [0, 0, 0];
+  for (let p = 0; p < img.r.length; p++) {
+    fn(img.r[p], img.g[p], img.b[p], px);
+    out.r[p] = px[0];
+    out.g[p] = px[1];
+    out.b[p] = px[2];
+  }
+  out.a.set(img.a);
+  return out;
+};
+
+// sRGB (straight alpha) -> working space
+export const toColorSpace = (img: FloatImage, space: ColorSpace): FloatImage => {
+  switch (space) {
+    case 'srgb':
+      return img;
+    case 'linear':
+      return mapPixels(img, (r, g, b, out) => {
+        out[0] = srgbToLinear(r);
+        out[1] = srgbToLinear(g);
+        out[2] = srgbToLinear(b);
+      });
+    case 'lab':
+      return mapPixels(img, rgbToLab);
+    case 'ycbcr':
+      return mapPixels(img, rgbToYcbcr);
+  }
+};
+
+// Working space -> sRGB (straight alpha)
+export const fromColorSpace = (img: FloatImage, space: ColorSpace): FloatImage => {
+  switch (space) {
+    case 'srgb':
+      return img;
+    case 'linear':
+      return mapPixels(img, (r, g, b, out) => {
+        out[0] = linearToSrgb(r);
+        out[1] = linearToSrgb(g);
+        out[2] = linearToSrgb(b);
+      });
+    case 'lab':
+      return mapPixels(img, labToRgb);
+    case 'ycbcr':
+      return mapPixels(img, ycbcrToRgb);
+  }
+};
+
+// Spaces whose channels 1 and 2 are chroma and may use their own pyramid depth
+export const hasSeparateChroma = (space: ColorSpace): boolean => space === 'lab' || space === 'ycbcr';
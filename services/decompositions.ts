@@ -0,0 +1,286 @@
+import { BorderMode, DecompositionName } from '../types';
+import {
+  buildPyramid, collapsePyramid, combine, convolve, downsampleFloat, FloatImage, ImagePyramid, KERNEL,
+} from './pyramidCore';
+
+/**
+ * Multiscale decompositions for pyramid blending, behind one analyze / synthesize interface.
+ * Each one splits an image into `levels` detail bands plus a coarse residual, tells the blend
+ * which mask weight applies to every band coefficient, and puts blended bands back together.
+ *  - laplacian: Burt–Adelson Laplacian pyramid (the original path)
+ *  - haar, cdf97: separable discrete wavelet transforms by lifting. A level's band has the
+ *    size of its input in Mallat layout: the top-left quadrant (the low-pass half, passed on
+ *    to the next level) is zero, the other three hold the horizontal, vertical and diagonal
+ *    details. Both use symmetric extension at the edges whatever the border mode.
+ *  - dog: Difference-of-Gaussians stack without decimation (à trous): every band is full size.
+ */
+
+export interface Decomposition {
+  name: DecompositionName;
+  // Bands of one working-space image, finest first; laplacians[levels] is the residual
+  analyze: (img: FloatImage, levels: number, border: BorderMode) => ImagePyramid;
+  // Mask weights on the grid of every band (levels + 1 images, 0-255). `border` is already
+  // the mask's (see maskBorder); `soften` blurs one band's mask; `report` is called once per
+  // coarser mask level built.
+  maskBands: (
+    mask: FloatImage, levels: number, border: BorderMode,
+    soften: (mask: FloatImage, band: number) => FloatImage, report: (level: number) => void
+  ) => FloatImage[];
+  // Partial reconstructions from the residual up, finest first; [0] is the image.
+  // `report` is called once per level added back.
+  synthesize: (bands: FloatImage[], border: BorderMode, report: (level: number) => void) => FloatImage[];
+}
+
+// Gaussian pyramid of the mask, as the Laplacian blend always used
+const maskPyramid = (mask: FloatImage, levels: number, border: BorderMode, report: (level: number) => void): FloatImage[] => {
+  const GM = [mask];
+  for (let i = 0; i < levels; i++) {
+    GM.push(downsampleFloat(GM[i], border));
+    report(i + 1);
+  }
+  return GM;
+};
+
+const laplacian: Decomposition = {
+  name: 'laplacian',
+  analyze: (img, levels, border) => buildPyramid(img, levels, border),
+  maskBands: (mask, levels, border, soften, report) => maskPyramid(mask, levels, border, report).map(soften),
+  synthesize: (bands, border, report) => collapsePyramid(bands, border, report),
+};
+
+// --- Wavelets ---
+
+// One 1D wavelet step: n samples -> ceil(n/2) low-pass then floor(n/2) high-pass coefficients
+interface Lifting {
+  forward: (x: Float32Array) => Float32Array;
+  inverse: (c: Float32Array) => Float32Array;
+}
+
+// Haar by lifting: d = odd - even, s = even + d / 2 (the pair mean); a trailing odd sample
+// is passed through as a low-pass coefficient
+const HAAR: Lifting = {
+  forward: (x) => {
+    const n = x.length;
+    const half = n >> 1;
+    const low = (n + 1) >> 1;
+    const out = new Float32Array(n);
+    for (let k = 0; k < half; k++) {
+      const d = x[2 * k + 1] - x[2 * k];
+      out[k] = x[2 * k] + d / 2;
+      out[low + k] = d;
+    }
+    if (n & 1) out[low - 1] = x[n - 1];
+    return out;
+  },
+  inverse: (c) => {
+    const n = c.length;
+    const half = n >> 1;
+    const low = (n + 1) >> 1;
+    const x = new Float32Array(n);
+    for (let k = 0; k < half; k++) {
+      x[2 * k] = c[k] - c[low + k] / 2;
+      x[2 * k + 1] = x[2 * k] + c[low + k];
+    }
+    if (n & 1) x[n - 1] = c[low - 1];
+    return x;
+  },
+};
+
+// CDF 9/7 (the JPEG 2000 irreversible filter) as four lifting steps and a scaling.
+// K makes the low-pass DC gain 1, so approximations stay in the 0-255 range.
+const CDF_ALPHA = -1.586134342059924;
+const CDF_BETA = -0.052980118572961;
+const CDF_GAMMA = 0.882911075530934;
+const CDF_DELTA = 0.443506852043971;
+const CDF_K = 1.230174104914001;
+
+// Predict (odd samples from their even neighbours) or update (even from odd) in place.
+// Clamping the neighbour index is whole-sample symmetric extension: x[-1] = x[1], x[n] = x[n - 2].
+const liftOdd = (s: Float32Array, d: Float32Array, w: number) => {
+  for (let k = 0; k < d.length; k++) d[k] += w * (s[k] + s[Math.min(k + 1, s.length - 1)]);
+};
+const liftEven = (s: Float32Array, d: Float32Array, w: number) => {
+  for (let k = 0; k < s.length; k++) s[k] += w * (d[Math.max(k - 1, 0)] + d[Math.min(k, d.length - 1)]);
+};
+
+const CDF97: Lifting = {
+  forward: (x) => {
+    const n = x.length;
+    const s = new Float32Array((n + 1) >> 1);
+    const d = new Float32Array(n >> 1);
+    for (let k = 0; k < s.length; k++) s[k] = x[2 * k];
+    for (let k = 0; k < d.length; k++) d[k] = x[2 * k + 1];
+    if (d.length > 0) {
+      liftOdd(s, d, CDF_ALPHA);
+      liftEven(s, d, CDF_BETA);
+      liftOdd(s, d, CDF_GAMMA);
+      liftEven(s, d, CDF_DELTA);
+      for (let k = 0; k < s.length; k++) s[k] /= CDF_K;
+      for (let k = 0; k < d.length; k++) d[k] *= CDF_K / 2;
+    }
+    const out = new Float32Array(n);
+    out.set(s);
+    out.set(d, s.length);
+    return out;
+  },
+  inverse: (c) => {
+    const n = c.length;
+    const s = c.slice(0, (n + 1) >> 1);
+    const d = c.slice((n + 1) >> 1);
+    if (d.length > 0) {
+      for (let k = 0; k < s.length; k++) s[k] *= CDF_K;
+      for (let k = 0; k < d.length; k++) d[k] /= CDF_K / 2;
+      liftEven(s, d, -CDF_DELTA);
+      liftOdd(s, d, -CDF_GAMMA);
+      liftEven(s, d, -CDF_BETA);
+      liftOdd(s, d, -CDF_ALPHA);
+    }
+    const x = new Float32Array(n);
+    for (let k = 0; k < s.length; k++) x[2 * k] = s[k];
+    for (let k = 0; k < d.length; k++) x[2 * k + 1] = d[k];
+    return x;
+  },
+};
+
+// Apply a 1D transform to every row, then every column (inverse: the other way round)
+const transform2d = (img: FloatImage, fn: (line: Float32Array) => Float32Array, rowsFirst: boolean): FloatImage => {
+  const { width: w, height: h } = img;
+  const out = new FloatImage(w, h);
+  const src = img.channels();
+  const dst = out.channels();
+  const column = new Float32Array(h);
+  for (let c = 0; c < src.length; c++) {
+    const plane = dst[c];
+    plane.set(src[c]);
+    const rows = () => {
+      for (let y = 0; y < h; y++) plane.set(fn(plane.subarray(y * w, y * w + w)), y * w);
+    };
+    const columns = () => {
+      for (let x = 0; x < w; x++) {
+        for (let y = 0; y < h; y++) column[y] = plane[y * w + x];
+        const t = fn(column);
+        for (let y = 0; y < h; y++) plane[y * w + x] = t[y];
+      }
+    };
+    if (rowsFirst) {
+      rows();
+      columns();
+    } else {
+      columns();
+      rows();
+    }
+  }
+  return out;
+};
+
+// Copy `src` into the top-left corner of `dst` (or zero that corner when src is null)
+const setCorner = (dst: FloatImage, width: number, height: number, src: FloatImage | null) => {
+  const to = dst.channels();
+  const from = src?.channels();
+  for (let c = 0; c < to.length; c++) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) to[c][y * dst.width + x] = from ? from[c][y * width + x] : 0;
+    }
+  }
+};
+
+const cropCorner = (img: FloatImage, width: number, height: number): FloatImage => {
+  const out = new FloatImage(width, height);
+  const [src, dst] = [img.channels(), out.channels()];
+  for (let c = 0; c < dst.length; c++) {
+    for (let y = 0; y < height; y++) dst[c].set(src[c].subarray(y * img.width, y * img.width + width), y * width);
+  }
+  return out;
+};
+
+// One mask value per coefficient: every quadrant of a level samples the next mask level
+const mallatLayout = (mask: FloatImage, width: number, height: number): FloatImage => {
+  const out = new FloatImage(width, height);
+  const [src, dst] = [mask.channels(), out.channels()];
+  for (let y = 0; y < height; y++) {
+    const sy = y < mask.height ? y : y - mask.height;
+    for (let x = 0; x < width; x++) {
+      const sx = x < mask.width ? x : x - mask.width;
+      for (let c = 0; c < dst.length; c++) dst[c][y * width + x] = src[c][sy * mask.width + sx];
+    }
+  }
+  return out;
+};
+
+const wavelet = (name: DecompositionName, lifting: Lifting): Decomposition => ({
+  name,
+  analyze: (img, levels) => {
+    const gaussians = [img];
+    const laplacians: FloatImage[] = [];
+    for (let i = 0; i < levels; i++) {
+      const coeffs = transform2d(gaussians[i], lifting.forward, true);
+      const w = Math.ceil(coeffs.width / 2);
+      const h = Math.ceil(coeffs.height / 2);
+      gaussians.push(cropCorner(coeffs, w, h));
+      setCorner(coeffs, w, h, null);
+      laplacians.push(coeffs);
+    }
+    laplacians.push(gaussians[levels]);
+    return { gaussians, laplacians };
+  },
+  maskBands: (mask, levels, border, soften, report) => {
+    const GM = maskPyramid(mask, levels, border, report);
+    return GM.map((m, i) => (i === levels ? soften(m, i) : mallatLayout(soften(GM[i + 1], i), m.width, m.height)));
+  },
+  synthesize: (bands, _border, report) => {
+    let current = bands[bands.length - 1];
+    const steps = [current];
+    for (let i = bands.length - 2; i >= 0; i--) {
+      const coeffs = bands[i].clone();
+      setCorner(coeffs, current.width, current.height, current);
+      current = transform2d(coeffs, lifting.inverse, false);
+      steps.unshift(current);
+      report(i);
+    }
+    return steps;
+  },
+});
+
+// --- Difference of Gaussians ---
+
+// Level i + 1 is level i filtered with the 5-tap kernel dilated by 2^i, matching the scale of
+// the Laplacian pyramid's level i + 1 without ever decimating
+const atrousStack = (img: FloatImage, levels: number, border: BorderMode, report?: (level: number) => void): FloatImage[] => {
+  const stack = [img];
+  for (let i = 0; i < levels; i++) {
+    stack.push(convolve(stack[i], KERNEL, border, 1 << i));
+    report?.(i + 1);
+  }
+  return stack;
+};
+
+const dog: Decomposition = {
+  name: 'dog',
+  analyze: (img, levels, border) => {
+    const gaussians = atrousStack(img, levels, border);
+    const laplacians = gaussians.slice(0, levels).map((g, i) => combine(g, gaussians[i + 1], -1));
+    laplacians.push(gaussians[levels]);
+    return { gaussians, laplacians };
+  },
+  maskBands: (mask, levels, border, soften, report) => atrousStack(mask, levels, border, report).map(soften),
+  // The bands telescope: adding them all back gives the image
+  synthesize: (bands, _border, report) => {
+    let current = bands[bands.length - 1];
+    const steps = [current];
+    for (let i = bands.length - 2; i >= 0; i--) {
+      current = combine(bands[i], current, 1);
+      steps.unshift(current);
+      report(i);
+    }
+    return steps;
+  },
+};
+
+const DECOMPOSITIONS: Record<DecompositionName, Decomposition> = {
+  laplacian,
+  haar: wavelet('haar', HAAR),
+  cdf97: wavelet('cdf97', CDF97),
+  dog,
+};
+
+export const getDecomposition = (name: DecompositionName = 'laplacian'): Decomposition => DECOMPOSITIONS[name];
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { crc32 } from 'node:zlib';
+import { FloatImage } from './pyramidCore';
+import { createZip } from './zipArchive';
+import { floatImageToNpy } from './exportBundle';
+
+// Entries as listed by the central directory, read back through their local headers
+const readZip = (zip: Uint8Array): { name: string; data: Uint8Array }[] => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50, 'end of central directory');
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  let pos = view.getUint32(end + 16, true);
+  assert.equal(pos + centralSize, end, 'central directory ends where the end record starts');
+
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    assert.equal(view.getUint32(pos, true), 0x02014b50, `central header ${i}`);
+    assert.equal(view.getUint16(pos + 10, true), 0, 'stored');
+    const crc = view.getUint32(pos + 16, true);
+    const size = view.getUint32(pos + 20, true);
+    assert.equal(view.getUint32(pos + 24, true), size, 'stored entries are not compressed');
+    const nameLength = view.getUint16(pos + 28, true);
+    const offset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(zip.subarray(pos + 46, pos + 46 + nameLength));
+
+    assert.equal(view.getUint32(offset, true), 0x04034b50, `local header of ${name}`);
+    assert.equal(view.getUint32(offset + 14, true), crc, `local CRC of ${name}`);
+    assert.equal(view.getUint16(offset + 26, true), nameLength);
+    const start = offset + 30 + nameLength + view.getUint16(offset + 28, true);
+    const data = zip.subarray(start, start + size);
+    assert.equal(crc32(data), crc, `CRC of ${name}`);
+    entries.push({ name, data });
+    pos += 46 + nameLength;
+  }
+  return entries;
+};
+
+test('stored entries come back through the central directory', () => {
+  const entries = [
+    { name: 'manifest.json', data: new TextEncoder().encode('{"version":1}') },
+    { name: 'a/gaussian_00.png', data: Uint8Array.from({ length: 1000 }, (_, i) => (i * 31) & 255) },
+    { name: 'empty/é.bin', data: new Uint8Array(0) },
+  ];
+  const back = readZip(createZip(entries));
+  assert.deepEqual(back.map(e => e.name), entries.map(e => e.name));
+  back.forEach((e, i) => assert.deepEqual(e.data, entries[i].data));
+});
+
+// Header fields and data of a .npy v1.0 file
+const parseNpy = (npy: Uint8Array) => {
+  assert.deepEqual([...npy.subarray(0, 8)], [0x93, ...new TextEncoder().encode('NUMPY'), 1, 0], 'magic and version');
+  const headerLen = new DataView(npy.buffer, npy.byteOffset).getUint16(8, true);
+  assert.equal((10 + headerLen) % 64, 0, 'data is 64-byte aligned');
+  const header = new TextDecoder().decode(npy.subarray(10, 10 + headerLen));
+  assert.ok(header.endsWith('\n'));
+  const shape = header.match(/'shape': \((\d+), (\d+), (\d+)\)/);
+  assert.ok(shape, header);
+  assert.match(header, /'descr': '<f4'/);
+  assert.match(header, /'fortran_order': False/);
+  const body = npy.slice(10 + headerLen);
+  return { shape: shape.slice(1).map(Number), data: new Float32Array(body.buffer) };
+};
+
+test('a float band survives .npy encoding inside the ZIP', () => {
+  const band = new FloatImage(5, 3);
+  band.channels().forEach((plane, c) => plane.forEach((_, p) => (plane[p] = (p - 7) * 1.25 + c / 3)));
+  const [entry] = readZip(createZip([{ name: 'output/laplacian_00.npy', data: floatImageToNpy(band) }]));
+  const { shape, data } = parseNpy(entry.data);
+  assert.deepEqual(shape, [3, 5, 4]);
+  // (height, width, 4): RGBA interleaved per pixel
+  const planes = band.channels();
+  for (let p = 0; p < 15; p++) {
+    for (let c = 0; c < 4; c++) assert.equal(data[p * 4 + c], planes[c][p]);
+  }
+});
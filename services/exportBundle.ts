@@ -0,0 +1,148 @@
+import { FitMode, MaskImageOptions, MaskMode, MaskSpec, ProcessingConfig, PyramidLevel, RasterImage, SeamOptions } from '../types';
+import { FloatImage, RasterBlendResult } from './pyramidCore';
+import { canvasToBlob, rasterToCanvas, toPyramidStages } from './imageProcessor';
+import { createZip, ZipEntry } from './zipArchive';
+import { AlignmentResult } from './alignment';
+import { PhotometricResult } from './photometric';
+
+/**
+ * "Export all": every pyramid stage as numbered PNGs, the signed bands as float32 .npy
+ * and a JSON manifest with the parameters, packed into one ZIP built in the browser.
+ */
+
+// One preview blend together with everything that produced it
+export interface BlendSnapshot {
+  a: RasterImage;
+  b: RasterImage;
+  mask: RasterImage;
+  output: RasterBlendResult;
+  levels: number;
+  config: Omit<ProcessingConfig, 'levels'>;
+  fitMode: FitMode;
+  maskMode: MaskMode;
+  maskSpec?: MaskSpec; // parametric masks, and the search region of seam masks
+  maskImageOptions?: MaskImageOptions; // image masks only
+  seamOptions?: SeamOptions; // seam masks only
+  alignment?: AlignmentResult; // how B was registered onto A, when it was
+  photometric?: PhotometricResult; // colour mapping applied to B, when enabled
+  sources: { a: string; b: string }; // image URLs
+}
+
+interface ManifestFile {
+  path: string;
+  row: 'a' | 'b' | 'mask' | 'output';
+  stage: PyramidLevel['type'];
+  level: number;
+  width: number;
+  height: number;
+}
+
+const pad = (level: number) => String(level).padStart(2, '0');
+
+const size = ({ width, height }: { width: number; height: number }) => ({ width, height });
+
+// Uploaded images are blob:/data: URLs that mean nothing outside this tab
+const sourceUrl = (url: string): string | null => (/^https?:/.test(url) ? url : null);
+
+const canvasToPng = async (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Uint8Array(await (await canvasToBlob(canvas)).arrayBuffer());
+
+// NumPy .npy v1.0: little-endian float32, shape (height, width, 4), RGBA interleaved
+export const floatImageToNpy = (img: FloatImage): Uint8Array => {
+  const { width, height } = img;
+  const dict = `{'descr': '<f4', 'fortran_order': False, 'shape': (${height}, ${width}, 4), }`;
+  // Magic (6) + version (2) + length (2) + header must be a multiple of 64, ending in '\n'
+  const headerLen = Math.ceil((10 + dict.length + 1) / 64) * 64 - 10;
+  const header = dict.padEnd(headerLen - 1, ' ') + '\n';
+
+  const out = new Uint8Array(10 + headerLen + width * height * 16);
+  out.set([0x93, ...new TextEncoder().encode('NUMPY'), 1, 0]);
+  new DataView(out.buffer).setUint16(8, headerLen, true);
+  out.set(new TextEncoder().encode(header), 10);
+
+  const view = new DataView(out.buffer, 10 + headerLen);
+  const planes = img.channels();
+  for (let p = 0; p < width * height; p++) {
+    for (let c = 0; c < 4; c++) view.setFloat32((p * 4 + c) * 4, planes[c][p], true);
+  }
+  return out;
+};
+
+export const buildExportBundle = async (snapshot: BlendSnapshot): Promise<Blob> => {
+  const { output } = snapshot;
+  const stages = toPyramidStages(output);
+  const entries: ZipEntry[] = [];
+  const files: ManifestFile[] = [];
+
+  const addPng = async (path: string, canvas: HTMLCanvasElement) => {
+    entries.push({ name: path, data: await canvasToPng(canvas) });
+  };
+
+  const addLevels = async (row: ManifestFile['row'], name: string, levels: PyramidLevel[], bands?: FloatImage[]) => {
+    for (const { level, type, canvas } of levels) {
+      const base = `${row}/${name}_${pad(level)}`;
+      await addPng(`${base}.png`, canvas);
+      files.push({ path: `${base}.png`, row, stage: type, level, ...size(canvas) });
+      if (bands) {
+        entries.push({ name: `${base}.npy`, data: floatImageToNpy(bands[level]) });
+        files.push({ path: `${base}.npy`, row, stage: type, level, ...size(canvas) });
+      }
+    }
+  };
+
+  await addPng('result.png', rasterToCanvas(output.result));
+  if (output.metrics) await addPng('metrics/seam_heatmap.png', rasterToCanvas(output.metrics.heatmap));
+  await addPng('inputs/a.png', rasterToCanvas(snapshot.a));
+  await addPng('inputs/b.png', rasterToCanvas(snapshot.b));
+  await addPng('inputs/mask.png', rasterToCanvas(snapshot.mask));
+
+  await addLevels('a', 'gaussian', stages.gaussiansA);
+  await addLevels('a', 'laplacian', stages.laplaciansA, output.laplaciansA);
+  await addLevels('b', 'gaussian', stages.gaussiansB);
+  await addLevels('b', 'laplacian', stages.laplaciansB, output.laplaciansB);
+  await addLevels('mask', 'gaussian', stages.gaussiansMask);
+  await addLevels('output', 'laplacian', stages.laplacians, output.laplacians);
+  await addLevels('output', 'reconstruction', stages.reconstruction);
+
+  const manifest = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    levels: snapshot.levels,
+    config: snapshot.config,
+    fitMode: snapshot.fitMode,
+    mask: {
+      mode: snapshot.maskMode,
+      spec: snapshot.maskSpec,
+      imageOptions: snapshot.maskImageOptions,
+      seam: snapshot.seamOptions,
+    },
+    alignment: snapshot.alignment,
+    photometric: snapshot.photometric,
+    backend: output.backend, // where the pyramid blend actually ran (config.backend is the request)
+    metrics: output.metrics && {
+      reconstruction: output.metrics.reconstruction,
+      seam: output.metrics.seam,
+      sources: output.metrics.sources,
+      heatmap: 'metrics/seam_heatmap.png',
+    },
+    sources: { a: sourceUrl(snapshot.sources.a), b: sourceUrl(snapshot.sources.b) },
+    images: {
+      a: size(snapshot.a),
+      b: size(snapshot.b),
+      mask: size(snapshot.mask),
+      result: size(output.result),
+    },
+    // PNG Laplacians are offset by 128; the .npy files hold the exact values
+    bands: {
+      decomposition: output.decomposition ?? 'laplacian',
+      colorSpace: snapshot.config.colorSpace ?? 'srgb',
+      premultiplied: true,
+      dtype: 'float32',
+      shape: '(height, width, 4) RGBA',
+    },
+    files,
+  };
+  entries.unshift({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+};
@@ -0,0 +1,57 @@
+/**
+ * In-place radix-2 FFT on split real/imaginary arrays, and its 2D row-column form.
+ * Sizes must be powers of two; callers pad (see nextPow2).
+ */
+
+export const nextPow2 = (n: number): number => {
+  let p = 1;
+  while (p < n) p *= 2;
+  return p;
+};
+
+// Iterative Cooley-Tukey over `n` samples starting at `offset`, `stride` apart
+const fft1d = (re: Float64Array, im: Float64Array, n: number, offset: number, stride: number, inverse: boolean) => {
+  const at = (k: number) => offset + k * stride;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      const [pi, pj] = [at(i), at(j)];
+      [re[pi], re[pj]] = [re[pj], re[pi]];
+      [im[pi], im[pj]] = [im[pj], im[pi]];
+    }
+  }
+  for (let len = 2; len <= n; len *= 2) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / len;
+    const wr = Math.cos(angle);
+    const wi = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let cr = 1;
+      let ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const p = at(start + k);
+        const q = at(start + k + len / 2);
+        const tr = re[q] * cr - im[q] * ci;
+        const ti = re[q] * ci + im[q] * cr;
+        re[q] = re[p] - tr;
+        im[q] = im[p] - ti;
+        re[p] += tr;
+        im[p] += ti;
+        [cr, ci] = [cr * wr - ci * wi, cr * wi + ci * wr];
+      }
+    }
+  }
+  if (inverse) {
+    for (let k = 0; k < n; k++) {
+      re[at(k)] /= n;
+      im[at(k)] /= n;
+    }
+  }
+};
+
+// Row-major width x height grid, transformed in place
+export const fft2d = (re: Float64Array, im: Float64Array, width: number, height: number, inverse = false) => {
+  for (let y = 0; y < height; y++) fft1d(re, im, width, y * width, 1, inverse);
+  for (let x = 0; x < width; x++) fft1d(re, im, height, x, width, inverse);
+};
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BorderMode, ColorSpace, RasterImage } from '../types';
+import { blendImageData, BlendOptions, createGradientMaskData, createRaster, PyramidBackend } from './pyramidCore';
+import { PyramidCache } from './pyramidCache';
+import { createWebGL2Backend } from './gpuPyramid';
+
+// Needs a WebGL2 context with float render targets: runs where OffscreenCanvas provides one
+// (a browser-based runner), skipped under plain Node
+const gpu = ((): PyramidBackend | null => {
+  try {
+    const gl = typeof OffscreenCanvas === 'undefined' ? null : new OffscreenCanvas(1, 1).getContext('webgl2');
+    return gl && createWebGL2Backend(gl);
+  } catch {
+    return null;
+  }
+})();
+const skip = gpu ? false : 'no WebGL2 context with float render targets';
+
+const BORDERS: BorderMode[] = ['reflect', 'replicate', 'zero'];
+const SPACES: ColorSpace[] = ['srgb', 'linear', 'lab', 'ycbcr'];
+// RGBA8 stages may land on the other side of a rounding step; float bands differ by the
+// precision of the shaders' colour conversions
+const RASTER_TOLERANCE = 1;
+const BAND_TOLERANCE = 0.05;
+
+const noise = (width: number, height: number, seed: number): RasterImage => {
+  const out = createRaster(width, height);
+  let s = seed;
+  for (let i = 0; i < out.data.length; i++) {
+    s = (Math.imul(s, 1664525) + 1013904223) >>> 0;
+    out.data[i] = (i & 3) === 3 ? 255 : s >>> 24;
+  }
+  return out;
+};
+
+// Odd sizes so every level has a ragged edge
+const a = noise(45, 33, 1);
+const b = noise(45, 33, 2);
+const mask = createGradientMaskData(45, 33, 'radial');
+
+const assertClose = (
+  actual: ReturnType<typeof blendImageData>, expected: ReturnType<typeof blendImageData>, what: string
+) => {
+  const rasters = ['result', 'gaussiansA', 'gaussiansB', 'gaussiansMask', 'reconstruction'] as const;
+  for (const stage of rasters) {
+    [expected[stage]].flat().forEach((img, i) => {
+      const got = [actual[stage]].flat()[i].data;
+      const worst = img.data.reduce((m, v, j) => Math.max(m, Math.abs(v - got[j])), 0);
+      assert.ok(worst <= RASTER_TOLERANCE, `${what}: ${stage}[${i}] off by ${worst}`);
+    });
+  }
+  for (const stage of ['laplacians', 'laplaciansA', 'laplaciansB'] as const) {
+    expected[stage].forEach((band, i) => {
+      const got = actual[stage][i].channels();
+      const worst = band.channels().reduce((m, plane, c) =>
+        plane.reduce((mm, v, p) => Math.max(mm, Math.abs(v - got[c][p])), m), 0);
+      assert.ok(worst <= BAND_TOLERANCE, `${what}: ${stage}[${i}] off by ${worst}`);
+    });
+  }
+};
+
+for (const border of BORDERS) {
+  test(`WebGL2 matches the CPU reference (${border} border)`, { skip }, () => {
+    for (const colorSpace of SPACES) {
+      // Separate chroma depth and per-band mask blur exercise every shader
+      const options: BlendOptions = { border, colorSpace, chromaLevels: 2, maskSigmas: [0, 1.5, 0, 2], bandGains: [1.2, 1, 0.8, 1] };
+      const cpu = blendImageData(a, b, mask, 3, options);
+      assertClose(blendImageData(a, b, mask, 3, { ...options, pyramidBackend: gpu! }), cpu, colorSpace);
+    }
+  });
+}
+
+test('WebGL2 re-blends from its cached source pyramids', { skip }, () => {
+  const cache = new PyramidCache();
+  for (const type of ['horizontal', 'vertical', 'radial'] as const) {
+    const m = createGradientMaskData(45, 33, type);
+    const options: BlendOptions = { colorSpace: 'lab', chromaLevels: 2, pyramidBackend: gpu! };
+    const fresh = blendImageData(a, b, m, 3, options);
+    const cached = blendImageData(a, b, m, 3, { ...options, pyramidCache: cache });
+    assert.deepEqual(cached.result.data, fresh.result.data, type);
+  }
+});
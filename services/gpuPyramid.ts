@@ -0,0 +1,509 @@
+import { BlendStage, BorderMode, ColorSpace } from '../types';
+import { hasSeparateChroma } from './colorSpace';
+import {
+  BlendOptions, FloatImage, gaussianKernel, KERNEL, maskBorder, PyramidBackend, PyramidBlendResult,
+} from './pyramidCore';
+
+/**
+ * WebGL2 pyramid backend: every level lives in an RGBA32F texture and REDUCE, EXPAND,
+ * subtract, blend and reconstruct are fragment shaders. The shaders mirror pyramidCore
+ * operation for operation (same kernels, border handling, premultiplication and colour
+ * conversions), so results match the CPU reference up to float rounding.
+ * All stages are read back at the end because the inspector shows every one of them.
+ * With a pyramidCache in the options, the working-space pyramids of A and B stay on the GPU
+ * under the cache's image keys, so live re-blends of the same sources only redo the mask side.
+ * Needs EXT_color_buffer_float and only implements the Laplacian decomposition; anything it
+ * cannot do throws, and callers fall back to the CPU.
+ */
+
+// Longest separable kernel the filter shader takes (mask sigma 8 needs 49 taps)
+const MAX_TAPS = 64;
+// Source pyramids kept on the GPU: two sources at two depths, as the CPU cache
+const CACHED_PYRAMIDS = 4;
+
+const BORDER_CODES: Record<BorderMode, number> = { reflect: 0, replicate: 1, zero: 2 };
+const SPACE_CODES: Record<ColorSpace, number> = { srgb: 0, linear: 1, lab: 2, ycbcr: 3 };
+
+// Full-screen triangle from gl_VertexID; no vertex buffers needed
+const VERTEX_SHADER = `#version 300 es
+void main() {
+  vec2 p = vec2((gl_VertexID << 1) & 2, gl_VertexID & 2);
+  gl_Position = vec4(p * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+const HEADER = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+out vec4 outColor;
+`;
+
+// resolveIndex from pyramidCore; 0 reflect, 1 replicate, 2 zero
+const RESOLVE_INDEX = `
+uniform int u_border;
+int resolveIndex(int i, int n) {
+  if (i >= 0 && i < n) return i;
+  if (u_border == 2) return -1;
+  if (u_border == 1 || n == 1) return i < 0 ? 0 : n - 1;
+  int period = 2 * n - 2;
+  int j = abs(i) % period;
+  if (j >= n) j = period - j;
+  return j;
+}
+`;
+
+// One axis of filterChannel: u_step 2 for REDUCE, 1 for a plain blur
+const FILTER_SHADER = `${HEADER}${RESOLVE_INDEX}
+uniform sampler2D u_src;
+uniform int u_axis;
+uniform int u_step;
+uniform int u_taps;
+uniform float u_kernel[${MAX_TAPS}];
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  ivec2 size = textureSize(u_src, 0);
+  int n = u_axis == 0 ? size.x : size.y;
+  int o = u_axis == 0 ? p.x : p.y;
+  int radius = (u_taps - 1) >> 1;
+  vec4 sum = vec4(0.0);
+  for (int k = 0; k < u_taps; k++) {
+    int s = resolveIndex(o * u_step + k - radius, n);
+    if (s < 0) continue;
+    sum += u_kernel[k] * texelFetch(u_src, u_axis == 0 ? ivec2(s, p.y) : ivec2(p.x, s), 0);
+  }
+  outColor = sum;
+}`;
+
+// One axis of expandChannel: only taps of matching parity land on coarse samples
+const EXPAND_SHADER = `${HEADER}${RESOLVE_INDEX}
+uniform sampler2D u_src;
+uniform int u_axis;
+const float KERNEL[5] = float[5](${KERNEL.map(k => k.toFixed(4)).join(', ')});
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  ivec2 size = textureSize(u_src, 0);
+  int n = u_axis == 0 ? size.x : size.y;
+  int o = u_axis == 0 ? p.x : p.y;
+  vec4 sum = vec4(0.0);
+  for (int m = -2 + (o & 1); m <= 2; m += 2) {
+    int s = resolveIndex((o - m) >> 1, n);
+    if (s < 0) continue;
+    sum += KERNEL[m + 2] * texelFetch(u_src, u_axis == 0 ? ivec2(s, p.y) : ivec2(p.x, s), 0);
+  }
+  outColor = 2.0 * sum;
+}`;
+
+// Laplacian level (a - b) and reconstruction step (a + b)
+const COMBINE_SHADER = `${HEADER}
+uniform sampler2D u_a;
+uniform sampler2D u_b;
+uniform float u_sign;
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  outColor = texelFetch(u_a, p, 0) + u_sign * texelFetch(u_b, p, 0);
+}`;
+
+// Band blend; gains shape the colour bands only
+const BLEND_SHADER = `${HEADER}
+uniform sampler2D u_a;
+uniform sampler2D u_b;
+uniform sampler2D u_mask;
+uniform float u_gain;
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  float alpha = texelFetch(u_mask, p, 0).r / 255.0;
+  outColor = (texelFetch(u_a, p, 0) * alpha + texelFetch(u_b, p, 0) * (1.0 - alpha)) * vec4(vec3(u_gain), 1.0);
+}`;
+
+// The conversions of colorSpace.ts; 0 srgb, 1 linear, 2 lab, 3 ycbcr
+const COLOR_SPACE = `
+uniform int u_space;
+const vec3 WHITE = vec3(0.95047, 1.0, 1.08883);
+const float LAB_EPS = 216.0 / 24389.0;
+const float LAB_KAPPA = 24389.0 / 27.0;
+float srgbToLinear(float v) {
+  float c = v / 255.0;
+  return 255.0 * (c <= 0.04045 ? c / 12.92 : pow((c + 0.055) / 1.055, 2.4));
+}
+float linearToSrgb(float v) {
+  float c = max(0.0, v / 255.0);
+  return 255.0 * (c <= 0.0031308 ? c * 12.92 : 1.055 * pow(c, 1.0 / 2.4) - 0.055);
+}
+float labF(float t) { return t > LAB_EPS ? pow(t, 1.0 / 3.0) : (LAB_KAPPA * t + 16.0) / 116.0; }
+float labFInv(float f) {
+  float t = f * f * f;
+  return t > LAB_EPS ? t : (116.0 * f - 16.0) / LAB_KAPPA;
+}
+vec3 toSpace(vec3 c) {
+  if (u_space == 1) return vec3(srgbToLinear(c.r), srgbToLinear(c.g), srgbToLinear(c.b));
+  if (u_space == 2) {
+    vec3 l = vec3(srgbToLinear(c.r), srgbToLinear(c.g), srgbToLinear(c.b)) / 255.0;
+    float fx = labF(dot(vec3(0.4124564, 0.3575761, 0.1804375), l) / WHITE.x);
+    float fy = labF(dot(vec3(0.2126729, 0.7151522, 0.0721750), l) / WHITE.y);
+    float fz = labF(dot(vec3(0.0193339, 0.1191920, 0.9503041), l) / WHITE.z);
+    return vec3((116.0 * fy - 16.0) * 2.55, 500.0 * (fx - fy) + 128.0, 200.0 * (fy - fz) + 128.0);
+  }
+  if (u_space == 3) {
+    return vec3(
+      0.299 * c.r + 0.587 * c.g + 0.114 * c.b,
+      128.0 - 0.168736 * c.r - 0.331264 * c.g + 0.5 * c.b,
+      128.0 + 0.5 * c.r - 0.418688 * c.g - 0.081312 * c.b
+    );
+  }
+  return c;
+}
+vec3 fromSpace(vec3 c) {
+  if (u_space == 1) return vec3(linearToSrgb(c.r), linearToSrgb(c.g), linearToSrgb(c.b));
+  if (u_space == 2) {
+    float fy = (c.x / 2.55 + 16.0) / 116.0;
+    float fx = fy + (c.y - 128.0) / 500.0;
+    float fz = fy - (c.z - 128.0) / 200.0;
+    vec3 xyz = vec3(labFInv(fx), labFInv(fy), labFInv(fz)) * WHITE;
+    return vec3(
+      linearToSrgb(255.0 * dot(vec3(3.2404542, -1.5371385, -0.4985314), xyz)),
+      linearToSrgb(255.0 * dot(vec3(-0.9692660, 1.8760108, 0.0415560), xyz)),
+      linearToSrgb(255.0 * dot(vec3(0.0556434, -0.2040259, 1.0572252), xyz))
+    );
+  }
+  if (u_space == 3) {
+    return vec3(
+      c.x + 1.402 * (c.z - 128.0),
+      c.x - 0.344136 * (c.y - 128.0) - 0.714136 * (c.z - 128.0),
+      c.x + 1.772 * (c.y - 128.0)
+    );
+  }
+  return c;
+}
+`;
+
+// sRGB with straight alpha -> working space, premultiplied
+const TO_WORKING_SHADER = `${HEADER}${COLOR_SPACE}
+uniform sampler2D u_src;
+void main() {
+  vec4 c = texelFetch(u_src, ivec2(gl_FragCoord.xy), 0);
+  outColor = vec4(toSpace(c.rgb) * (c.a / 255.0), c.a);
+}`;
+
+// Working space, premultiplied -> sRGB with straight alpha; optionally takes channels
+// 1 and 2 from a separate chroma collapse
+const FROM_WORKING_SHADER = `${HEADER}${COLOR_SPACE}
+uniform sampler2D u_src;
+uniform sampler2D u_chroma;
+uniform int u_splitChroma;
+vec4 unpremultiply(vec4 c) {
+  float alpha = clamp(c.a, 0.0, 255.0);
+  return vec4(c.rgb * (alpha > 0.0 ? 255.0 / alpha : 0.0), alpha);
+}
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  vec4 c = unpremultiply(texelFetch(u_src, p, 0));
+  if (u_splitChroma == 1) c.gb = unpremultiply(texelFetch(u_chroma, p, 0)).gb;
+  outColor = vec4(fromSpace(c.rgb), c.a);
+}`;
+
+interface Texture {
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+}
+
+interface TexturePyramid {
+  gaussians: Texture[];
+  laplacians: Texture[];
+}
+
+type Uniforms = Record<string, number | number[]>;
+
+interface Program {
+  program: WebGLProgram;
+  samplers: string[]; // bound to texture units in this order
+  ints: string[]; // uniforms set with uniform1i; any other number is a float
+  locations: Map<string, WebGLUniformLocation | null>;
+}
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string): WebGLShader => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('WebGL2: could not create shader');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`WebGL2: shader failed to compile: ${log}`);
+  }
+  return shader;
+};
+
+const linkProgram = (
+  gl: WebGL2RenderingContext, vertex: WebGLShader, source: string, samplers: string[], ints: string[] = []
+): Program => {
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, source);
+  const program = gl.createProgram();
+  if (!program) throw new Error('WebGL2: could not create program');
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  gl.deleteShader(fragment);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`WebGL2: program failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  return { program, samplers, ints, locations: new Map() };
+};
+
+// Planes -> interleaved RGBA floats and back
+const interleave = (img: FloatImage): Float32Array => {
+  const out = new Float32Array(img.width * img.height * 4);
+  const planes = img.channels();
+  for (let p = 0; p < img.r.length; p++) {
+    for (let c = 0; c < 4; c++) out[p * 4 + c] = planes[c][p];
+  }
+  return out;
+};
+
+const deinterleave = (data: Float32Array, width: number, height: number): FloatImage => {
+  const img = new FloatImage(width, height);
+  const planes = img.channels();
+  for (let p = 0; p < width * height; p++) {
+    for (let c = 0; c < 4; c++) planes[c][p] = data[p * 4 + c];
+  }
+  return img;
+};
+
+export const createWebGL2Backend = (gl: WebGL2RenderingContext): PyramidBackend => {
+  if (!gl.getExtension('EXT_color_buffer_float')) {
+    throw new Error('WebGL2: float render targets (EXT_color_buffer_float) are not supported');
+  }
+  const maxSize: number = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const programs = {
+    filter: linkProgram(gl, vertex, FILTER_SHADER, ['u_src'], ['u_axis', 'u_step', 'u_taps']),
+    expand: linkProgram(gl, vertex, EXPAND_SHADER, ['u_src'], ['u_axis']),
+    combine: linkProgram(gl, vertex, COMBINE_SHADER, ['u_a', 'u_b']),
+    blend: linkProgram(gl, vertex, BLEND_SHADER, ['u_a', 'u_b', 'u_mask']),
+    toWorking: linkProgram(gl, vertex, TO_WORKING_SHADER, ['u_src']),
+    fromWorking: linkProgram(gl, vertex, FROM_WORKING_SHADER, ['u_src', 'u_chroma'], ['u_splitChroma']),
+  };
+  gl.deleteShader(vertex);
+  // Attribute-less draws still need a vertex array bound
+  const vao = gl.createVertexArray();
+  const framebuffer = gl.createFramebuffer();
+  // Least recently used first, like PyramidCache
+  const cachedPyramids = new Map<string, TexturePyramid>();
+  const texturesOf = ({ gaussians, laplacians }: TexturePyramid) => new Set([...gaussians, ...laplacians].map(t => t.texture));
+
+  const blendPyramids = (
+    imgA: FloatImage,
+    imgB: FloatImage,
+    imgMask: FloatImage,
+    levels: number,
+    options: BlendOptions = {}
+  ): PyramidBlendResult => {
+    const {
+      colorSpace = 'srgb', chromaLevels = levels, border = 'reflect',
+      maskSigmas = [], bandGains = [], pyramidCache, onProgress,
+    } = options;
+    if (gl.isContextLost()) {
+      // Its textures went with the context
+      cachedPyramids.clear();
+      throw new Error('WebGL2: context lost');
+    }
+    if ((options.decomposition ?? 'laplacian') !== 'laplacian') {
+      throw new Error(`WebGL2: the ${options.decomposition} decomposition is not implemented`);
+    }
+    if (imgA.width > maxSize || imgA.height > maxSize) {
+      throw new Error(`WebGL2: ${imgA.width}x${imgA.height} exceeds the maximum texture size ${maxSize}`);
+    }
+    const splitChroma = hasSeparateChroma(colorSpace) && chromaLevels !== levels;
+    const maskEdge = maskBorder(border);
+
+    // Same step accounting as the CPU path (see bandSteps)
+    const totalSteps = 4 * levels + 1 + (splitChroma ? 4 * chromaLevels + 1 : 0);
+    let doneSteps = 0;
+    const report = (runLevels: number) => (stage: BlendStage, level: number) => {
+      doneSteps++;
+      onProgress?.({ stage, level, levels: runLevels, fraction: doneSteps / totalSteps });
+    };
+
+    // Every texture of this blend, freed at the end whatever happens
+    const allocated = new Set<WebGLTexture>();
+    const allocate = (width: number, height: number, data: Float32Array | null = null): Texture => {
+      const texture = gl.createTexture();
+      if (!texture) throw new Error('WebGL2: could not create texture');
+      allocated.add(texture);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA32F, width, height, 0, gl.RGBA, gl.FLOAT, data);
+      // Left unbound so a render target is never also a sampler input
+      gl.bindTexture(gl.TEXTURE_2D, null);
+      return { texture, width, height };
+    };
+    const upload = (img: FloatImage): Texture => allocate(img.width, img.height, interleave(img));
+
+    // Render one pass of `program` into a new width x height texture
+    const draw = (
+      program: Program, width: number, height: number, inputs: Texture[], uniforms: Uniforms = {}, edge = border
+    ): Texture => {
+      const target = allocate(width, height);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, target.texture, 0);
+      if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+        throw new Error('WebGL2: float framebuffer is incomplete');
+      }
+      gl.useProgram(program.program);
+      const location = (name: string) => {
+        if (!program.locations.has(name)) program.locations.set(name, gl.getUniformLocation(program.program, name));
+        return program.locations.get(name)!;
+      };
+      program.samplers.forEach((name, unit) => {
+        gl.activeTexture(gl.TEXTURE0 + unit);
+        // Samplers without an input of their own read the first one
+        gl.bindTexture(gl.TEXTURE_2D, (inputs[unit] ?? inputs[0]).texture);
+        gl.uniform1i(location(name), unit);
+      });
+      gl.uniform1i(location('u_border'), BORDER_CODES[edge]);
+      gl.uniform1i(location('u_space'), SPACE_CODES[colorSpace]);
+      for (const [name, value] of Object.entries(uniforms)) {
+        if (Array.isArray(value)) gl.uniform1fv(location(name), value);
+        else if (program.ints.includes(name)) gl.uniform1i(location(name), value);
+        else gl.uniform1f(location(name), value);
+      }
+      gl.viewport(0, 0, width, height);
+      gl.bindVertexArray(vao);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+      gl.bindVertexArray(null);
+      // Unbind the inputs again, for the same reason as in allocate
+      program.samplers.forEach((_, unit) => {
+        gl.activeTexture(gl.TEXTURE0 + unit);
+        gl.bindTexture(gl.TEXTURE_2D, null);
+      });
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      return target;
+    };
+
+    const read = (tex: Texture): FloatImage => {
+      const data = new Float32Array(tex.width * tex.height * 4);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, tex.texture, 0);
+      gl.readPixels(0, 0, tex.width, tex.height, gl.RGBA, gl.FLOAT, data);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      return deinterleave(data, tex.width, tex.height);
+    };
+
+    // Separable filter: x pass to outW x h, then y pass to outW x outH (as filterChannel)
+    const filter = (src: Texture, outW: number, outH: number, step: number, kernel: number[], edge = border): Texture => {
+      if (kernel.length > MAX_TAPS) throw new Error(`WebGL2: kernel of ${kernel.length} taps exceeds ${MAX_TAPS}`);
+      const taps = { u_step: step, u_taps: kernel.length, u_kernel: [...kernel, ...new Array(MAX_TAPS - kernel.length).fill(0)] };
+      const tmp = draw(programs.filter, outW, src.height, [src], { ...taps, u_axis: 0 }, edge);
+      return draw(programs.filter, outW, outH, [tmp], { ...taps, u_axis: 1 }, edge);
+    };
+    const reduce = (src: Texture, edge = border): Texture =>
+      filter(src, Math.ceil(src.width / 2), Math.ceil(src.height / 2), 2, KERNEL, edge);
+    const expand = (src: Texture, width: number, height: number): Texture => {
+      const tmp = draw(programs.expand, width, src.height, [src], { u_axis: 0 });
+      return draw(programs.expand, width, height, [tmp], { u_axis: 1 });
+    };
+    const subtract = (a: Texture, b: Texture) => draw(programs.combine, a.width, a.height, [a, b], { u_sign: -1 });
+    const add = (a: Texture, b: Texture) => draw(programs.combine, a.width, a.height, [a, b], { u_sign: 1 });
+    const fromWorking = (src: Texture, chroma?: Texture) =>
+      draw(programs.fromWorking, src.width, src.height, chroma ? [src, chroma] : [src], { u_splitChroma: chroma ? 1 : 0 });
+
+    // Gaussian and Laplacian pyramids of one working-space image (buildPyramid)
+    const pyramid = (img: Texture, runLevels: number): TexturePyramid => {
+      const gaussians = [img];
+      for (let i = 0; i < runLevels; i++) gaussians.push(reduce(gaussians[i]));
+      const laplacians = gaussians.slice(0, runLevels).map((g, i) => subtract(g, expand(gaussians[i + 1], g.width, g.height)));
+      laplacians.push(gaussians[runLevels]);
+      return { gaussians, laplacians };
+    };
+
+    // A source in the working space, converted at most once per blend
+    const workingOf = (img: FloatImage) => {
+      let work: Texture | undefined;
+      return () => (work ??= draw(programs.toWorking, img.width, img.height, [upload(img)]));
+    };
+    const working = { A: workingOf(imgA), B: workingOf(imgB) };
+    const keys = { A: pyramidCache?.imageKey(imgA), B: pyramidCache?.imageKey(imgB) };
+
+    // Pyramid of A or B, from the GPU cache when the options bring a pyramidCache to key it
+    const sourcePyramid = (source: 'A' | 'B', runLevels: number): TexturePyramid => {
+      const key = keys[source] && `${keys[source]}|${colorSpace}|${border}|${runLevels}`;
+      if (!key) return pyramid(working[source](), runLevels);
+      const cached = cachedPyramids.get(key);
+      if (cached) {
+        cachedPyramids.delete(key);
+        cachedPyramids.set(key, cached);
+        return cached;
+      }
+      const built = pyramid(working[source](), runLevels);
+      // Owned by the cache from now on, not freed with this blend's textures
+      texturesOf(built).forEach(t => allocated.delete(t));
+      cachedPyramids.set(key, built);
+      while (cachedPyramids.size > CACHED_PYRAMIDS) {
+        const [oldest, evicted] = cachedPyramids.entries().next().value!;
+        cachedPyramids.delete(oldest);
+        texturesOf(evicted).forEach(t => gl.deleteTexture(t));
+      }
+      return built;
+    };
+
+    // blendBands on textures
+    const blendBands = (mask: Texture, runLevels: number) => {
+      const step = report(runLevels);
+      const A = sourcePyramid('A', runLevels);
+      const B = sourcePyramid('B', runLevels);
+      const GM = [mask];
+      for (let i = 0; i < runLevels; i++) {
+        GM.push(reduce(GM[i], maskEdge));
+        step('gaussian', i + 1);
+      }
+      for (let i = 0; i < runLevels; i++) step('laplacian', i);
+
+      const bands: Texture[] = [];
+      const masks: Texture[] = [];
+      for (let i = 0; i <= runLevels; i++) {
+        const sigma = maskSigmas[i] ?? 0;
+        const m = sigma > 0 ? filter(GM[i], GM[i].width, GM[i].height, 1, gaussianKernel(sigma), maskEdge) : GM[i];
+        const { width, height } = A.laplacians[i];
+        bands.push(draw(programs.blend, width, height, [A.laplacians[i], B.laplacians[i], m], { u_gain: bandGains[i] ?? 1 }));
+        masks.push(m);
+        step('blend', i);
+      }
+
+      let current = bands[runLevels];
+      const steps = [current];
+      for (let i = runLevels - 1; i >= 0; i--) {
+        current = add(bands[i], expand(current, bands[i].width, bands[i].height));
+        steps.unshift(current);
+        step('reconstruct', i);
+      }
+      return { A, B, bands, masks, steps };
+    };
+
+    try {
+      const mask = upload(imgMask);
+
+      const out = blendBands(mask, levels);
+      const chroma = splitChroma ? blendBands(mask, chromaLevels).steps[0] : undefined;
+
+      return {
+        result: read(fromWorking(out.steps[0], chroma)),
+        laplacians: out.bands.map(read),
+        gaussiansA: out.A.gaussians.map(g => read(fromWorking(g))),
+        gaussiansB: out.B.gaussians.map(g => read(fromWorking(g))),
+        gaussiansMask: out.masks.map(read),
+        laplaciansA: out.A.laplacians.map(read),
+        laplaciansB: out.B.laplacians.map(read),
+        reconstruction: out.steps.map(s => read(fromWorking(s))),
+      };
+    } finally {
+      allocated.forEach(t => gl.deleteTexture(t));
+    }
+  };
+
+  return { name: 'webgl2', blendPyramids };
+};
@@ -0,0 +1,27 @@
+import { ImageSource } from '../types';
+
+/**
+ * Helpers for ImageSource: uploaded files keep their blob so they can be persisted,
+ * remote images are referenced by URL only.
+ */
+
+const newId = () => crypto.randomUUID();
+
+export const sourceFromUrl = (url: string, name = url.split('/').pop() || url): ImageSource =>
+  ({ id: newId(), name, url });
+
+export const sourceFromBlob = (blob: Blob, name: string): ImageSource =>
+  ({ id: newId(), name, url: URL.createObjectURL(blob), blob });
+
+export const sourceFromFile = (file: File): ImageSource => sourceFromBlob(file, file.name);
+
+// A blob that is only going into storage: no object URL (nothing would revoke it), reviveSource
+// creates one when the session is loaded
+export const storedSource = (blob: Blob, name: string): ImageSource => ({ id: newId(), name, url: '', blob });
+
+// blob: URLs die with the page; recreate one for a source restored from storage
+export const reviveSource = (src: ImageSource): ImageSource =>
+  src.blob ? { ...src, url: URL.createObjectURL(src.blob) } : src;
+
+// Only http(s) URLs mean anything outside this tab
+export const isRemoteSource = (src: ImageSource): boolean => !src.blob && /^https?:/.test(src.url);
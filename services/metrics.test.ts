@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RasterImage } from '../types';
+import { createRaster } from './pyramidCore';
+import { MAX_PSNR, measurePairBlend } from './metrics';
+
+const W = 40;
+const H = 20;
+
+const grey = (fn: (x: number, y: number) => number): RasterImage => {
+  const out = createRaster(W, H);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const i = (y * W + x) * 4;
+      out.data[i] = out.data[i + 1] = out.data[i + 2] = fn(x, y);
+      out.data[i + 3] = 255;
+    }
+  }
+  return out;
+};
+
+const near = (actual: number, expected: number, what: string) =>
+  assert.ok(Math.abs(actual - expected) < 1e-3, `${what}: ${actual}, expected ${expected}`);
+
+test('a result identical to the only weighted source has infinite PSNR and SSIM 1', () => {
+  const a = grey((x, y) => (x * 7 + y * 13) % 256);
+  const b = grey(() => 90);
+  const { reconstruction, sources } = measurePairBlend(a, a, b, grey(() => 255));
+  assert.ok(reconstruction);
+  assert.equal(reconstruction.source, 0);
+  assert.equal(reconstruction.psnr, MAX_PSNR);
+  near(reconstruction.ssim, 1, 'SSIM');
+  near(sources[0].ssim, 1, 'SSIM of A');
+  assert.equal(sources[1].pixels, 0);
+});
+
+test('a hard cut between two flat sources scores its step edge', () => {
+  const a = grey(() => 200);
+  const b = grey(() => 100);
+  const mask = grey(x => (x < W / 2 ? 255 : 0));
+  const { reconstruction, seam } = measurePairBlend(grey(x => (x < W / 2 ? 200 : 100)), a, b, mask);
+  assert.equal(reconstruction, null);
+  // The label change sits between columns 19 and 20; the band reaches 2 pixels from
+  // column 19, so columns 17-21 on every row
+  assert.equal(seam.pixels, 5 * H);
+  // Central differences see the 100 step as -50 at columns 19 and 20; the flat sources
+  // have no gradient, so all of it is artifact: 2 of 5 columns at 50^2
+  near(seam.energy, (2 * 2500) / 5, 'energy');
+  near(seam.reference, 0, 'reference');
+  near(seam.artifact, (2 * 2500) / 5, 'artifact');
+});
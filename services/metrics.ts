@@ -0,0 +1,237 @@
+import { RasterImage } from '../types';
+import { convolve, createRaster, FloatImage, gaussianKernel } from './pyramidCore';
+
+/**
+ * Blend quality metrics, computed after every preview blend so seams can be judged by
+ * numbers as well as by eye. Every source comes with a weight map (mask.r, 0-255; a pair
+ * blend passes the mask and its inverse), normalized per pixel like the multi-band blend.
+ *  - reconstruction: PSNR / SSIM against the source that has all the weight, if one does
+ *    (an all-white mask must give A back up to rounding)
+ *  - seam: mean squared gradient of the result in the transition band, of the weighted
+ *    source gradients there, and of their difference (structure the blend added or lost)
+ *  - sources: SSIM against each source where that source has the largest weight
+ *  - heatmap: that gradient difference over the whole image, on a dimmed copy of the result
+ * Everything is measured on luma (BT.601), skipping pixels a source does not cover.
+ */
+
+export interface SourceMetrics {
+  ssim: number;
+  pixels: number; // size of the region the source dominates
+}
+
+export interface BlendMetrics {
+  reconstruction: { source: number; psnr: number; ssim: number } | null;
+  seam: {
+    pixels: number; // transition band
+    energy: number; // result
+    reference: number; // weighted sources
+    artifact: number; // difference of the two gradients
+  };
+  sources: SourceMetrics[];
+  heatmap: RasterImage;
+}
+
+// Identical images have no finite PSNR; report this instead
+export const MAX_PSNR = 100;
+
+// Wang et al.: 11-tap Gaussian window (sigma 1.5), K1 = 0.01, K2 = 0.03
+const SSIM_KERNEL = gaussianKernel(1.5);
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+// A source counts as having all the weight above this share everywhere
+const FULL_WEIGHT = 0.999;
+// Soft transitions: pixels where no source has more than this share
+const BAND_SHARE = 0.98;
+// Hard transitions: band half-width around label changes, as a share of the longer side
+const BAND_RADIUS = 0.01;
+// Heat map scale: 99th percentile of the gradient difference, but at least this much
+const HEAT_PERCENTILE = 0.99;
+const MIN_HEAT_SCALE = 4;
+
+const luma = (img: FloatImage): Float32Array =>
+  img.r.map((r, p) => 0.299 * r + 0.587 * img.g[p] + 0.114 * img.b[p]);
+
+// Central differences, one-sided at the edges
+const gradients = (plane: Float32Array, w: number, h: number): [Float32Array, Float32Array] => {
+  const gx = new Float32Array(w * h);
+  const gy = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const p = y * w + x;
+      const x0 = Math.max(0, x - 1);
+      const x1 = Math.min(w - 1, x + 1);
+      const y0 = Math.max(0, y - 1);
+      const y1 = Math.min(h - 1, y + 1);
+      gx[p] = x1 > x0 ? (plane[y * w + x1] - plane[y * w + x0]) / (x1 - x0) : 0;
+      gy[p] = y1 > y0 ? (plane[y1 * w + x] - plane[y0 * w + x]) / (y1 - y0) : 0;
+    }
+  }
+  return [gx, gy];
+};
+
+// Per-pixel SSIM of two luma planes
+const ssimMap = (x: Float32Array, y: Float32Array, w: number, h: number): Float32Array => {
+  const moments = convolve(
+    FloatImage.fromPlanes({ width: w, height: h, r: x, g: y, b: x.map(v => v * v), a: y.map(v => v * v) }),
+    SSIM_KERNEL
+  );
+  const cross = new FloatImage(w, h);
+  cross.r = x.map((v, p) => v * y[p]);
+  const sxy = convolve(cross, SSIM_KERNEL).r;
+  return moments.r.map((mx, p) => {
+    const my = moments.g[p];
+    const vx = moments.b[p] - mx * mx;
+    const vy = moments.a[p] - my * my;
+    const cov = sxy[p] - mx * my;
+    return ((2 * mx * my + C1) * (2 * cov + C2)) / ((mx * mx + my * my + C1) * (vx + vy + C2));
+  });
+};
+
+const meanOver = (values: Float32Array, region: Uint8Array | null): { mean: number; count: number } => {
+  let sum = 0;
+  let count = 0;
+  for (let p = 0; p < values.length; p++) {
+    if (region && !region[p]) continue;
+    sum += values[p];
+    count++;
+  }
+  return { mean: count ? sum / count : 0, count };
+};
+
+const psnr = (a: FloatImage, b: FloatImage): number => {
+  let sq = 0;
+  const [pa, pb] = [[a.r, a.g, a.b], [b.r, b.g, b.b]];
+  for (let c = 0; c < 3; c++) {
+    for (let p = 0; p < a.r.length; p++) sq += (pa[c][p] - pb[c][p]) ** 2;
+  }
+  const mse = sq / (3 * a.r.length);
+  return mse > 0 ? Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / mse)) : MAX_PSNR;
+};
+
+// Pixels within `radius` (Chebyshev) of a marked pixel, via running sums along rows then columns
+const dilate = (marks: Uint8Array, w: number, h: number, radius: number): Uint8Array => {
+  const pass = (src: Uint8Array, n: number, lines: number, at: (line: number, i: number) => number): Uint8Array => {
+    const out = new Uint8Array(src.length);
+    const prefix = new Int32Array(n + 1);
+    for (let line = 0; line < lines; line++) {
+      for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + src[at(line, i)];
+      for (let i = 0; i < n; i++) {
+        const lo = Math.max(0, i - radius);
+        const hi = Math.min(n, i + radius + 1);
+        out[at(line, i)] = prefix[hi] > prefix[lo] ? 1 : 0;
+      }
+    }
+    return out;
+  };
+  const rows = pass(marks, w, h, (y, x) => y * w + x);
+  return pass(rows, h, w, (x, y) => y * w + x);
+};
+
+// Dim grey copy of the result with the gradient difference on a black-red-yellow-white scale
+const renderHeatmap = (base: Float32Array, diff: Float32Array, w: number, h: number): RasterImage => {
+  const sorted = diff.slice().sort();
+  const scale = Math.max(MIN_HEAT_SCALE, sorted[Math.floor(HEAT_PERCENTILE * (sorted.length - 1))] ?? 0);
+  const out = createRaster(w, h);
+  for (let p = 0; p < diff.length; p++) {
+    const t = Math.min(1, diff[p] / scale);
+    const grey = base[p] * 0.3;
+    out.data[p * 4] = Math.max(grey, 255 * Math.min(1, 3 * t));
+    out.data[p * 4 + 1] = Math.max(grey, 255 * Math.min(1, Math.max(0, 3 * t - 1)));
+    out.data[p * 4 + 2] = Math.max(grey, 255 * Math.min(1, Math.max(0, 3 * t - 2)));
+    out.data[p * 4 + 3] = 255;
+  }
+  return out;
+};
+
+export const measureBlend = (result: RasterImage, sources: RasterImage[], weights: RasterImage[]): BlendMetrics => {
+  const { width: w, height: h } = result;
+  const n = w * h;
+  const R = FloatImage.fromImageData(result);
+  const S = sources.map(FloatImage.fromImageData);
+  const W = weights.map(FloatImage.fromImageData);
+
+  // Normalized weights, only where a source has data; uncovered everywhere: average them
+  const shares = S.map(() => new Float32Array(n));
+  for (let p = 0; p < n; p++) {
+    let sum = 0;
+    for (let k = 0; k < S.length; k++) sum += S[k].a[p] > 0 ? Math.max(0, W[k].r[p]) : 0;
+    for (let k = 0; k < S.length; k++) {
+      shares[k][p] = sum > 0 ? (S[k].a[p] > 0 ? Math.max(0, W[k].r[p]) : 0) / sum : 1 / S.length;
+    }
+  }
+  // Dominant source per pixel
+  const labels = new Uint8Array(n);
+  for (let p = 0; p < n; p++) {
+    for (let k = 1; k < S.length; k++) if (shares[k][p] > shares[labels[p]][p]) labels[p] = k;
+  }
+
+  const lumaR = luma(R);
+  const lumaS = S.map(luma);
+
+  // 1. Reconstruction against a source that takes the whole image
+  const full = shares.findIndex(share => share.every(v => v >= FULL_WEIGHT));
+  const reconstruction = full < 0 ? null : {
+    source: full,
+    psnr: psnr(R, S[full]),
+    ssim: meanOver(ssimMap(lumaR, lumaS[full], w, h), null).mean,
+  };
+
+  // 2. Seam band: soft blending, or close to where the dominant source changes
+  const changes = new Uint8Array(n);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const p = y * w + x;
+      if ((x + 1 < w && labels[p + 1] !== labels[p]) || (y + 1 < h && labels[p + w] !== labels[p])) changes[p] = 1;
+    }
+  }
+  const band = dilate(changes, w, h, Math.max(2, Math.round(BAND_RADIUS * Math.max(w, h))));
+  for (let p = 0; p < n; p++) {
+    if (shares[labels[p]][p] < BAND_SHARE) band[p] = 1;
+  }
+
+  const [rx, ry] = gradients(lumaR, w, h);
+  const refX = new Float32Array(n);
+  const refY = new Float32Array(n);
+  lumaS.forEach((plane, k) => {
+    const [gx, gy] = gradients(plane, w, h);
+    for (let p = 0; p < n; p++) {
+      refX[p] += shares[k][p] * gx[p];
+      refY[p] += shares[k][p] * gy[p];
+    }
+  });
+  const diff = new Float32Array(n);
+  let energy = 0;
+  let reference = 0;
+  let artifact = 0;
+  let pixels = 0;
+  for (let p = 0; p < n; p++) {
+    const dx = rx[p] - refX[p];
+    const dy = ry[p] - refY[p];
+    diff[p] = Math.hypot(dx, dy);
+    if (!band[p]) continue;
+    energy += rx[p] * rx[p] + ry[p] * ry[p];
+    reference += refX[p] * refX[p] + refY[p] * refY[p];
+    artifact += dx * dx + dy * dy;
+    pixels++;
+  }
+  const seam = pixels
+    ? { pixels, energy: energy / pixels, reference: reference / pixels, artifact: artifact / pixels }
+    : { pixels, energy: 0, reference: 0, artifact: 0 };
+
+  // 3. Each source inside the region it dominates
+  const sourceMetrics = lumaS.map((plane, k) => {
+    const region = labels.map((label, p) => (label === k && S[k].a[p] > 0 ? 1 : 0));
+    const { mean, count } = meanOver(ssimMap(lumaR, plane, w, h), region);
+    return { ssim: mean, pixels: count };
+  });
+
+  return { reconstruction, seam, sources: sourceMetrics, heatmap: renderHeatmap(lumaR, diff, w, h) };
+};
+
+// Two-image blends: the mask weights A, its inverse weights B
+export const measurePairBlend = (result: RasterImage, a: RasterImage, b: RasterImage, mask: RasterImage): BlendMetrics => {
+  const inverse = createRaster(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i += 4) inverse.data[i] = 255 - mask.data[i];
+  return measureBlend(result, [a, b], [mask, inverse]);
+};
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BorderMode, ColorSpace, DecompositionName, RasterImage } from '../types';
+import { blendImageData, createGradientMaskData, createRaster } from './pyramidCore';
+import { blendManyImageData } from './multiBlend';
+import { blendManyImageDataTiled } from './tiledBlend';
+
+const noise = (width: number, height: number, seed: number): RasterImage => {
+  const out = createRaster(width, height);
+  let s = seed;
+  for (let i = 0; i < out.data.length; i++) {
+    s = (Math.imul(s, 1664525) + 1013904223) >>> 0;
+    out.data[i] = (i & 3) === 3 ? 255 : s >>> 24;
+  }
+  return out;
+};
+
+const invert = (mask: RasterImage): RasterImage => {
+  const out = createRaster(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i += 4) {
+    out.data[i] = out.data[i + 1] = out.data[i + 2] = 255 - mask.data[i];
+    out.data[i + 3] = 255;
+  }
+  return out;
+};
+
+const a = noise(45, 31, 3);
+const b = noise(45, 31, 4);
+const mask = createGradientMaskData(45, 31, 'radial');
+
+const cases: [DecompositionName, ColorSpace, BorderMode][] = [
+  ['laplacian', 'srgb', 'reflect'],
+  ['haar', 'linear', 'replicate'],
+  ['cdf97', 'lab', 'zero'],
+  ['dog', 'ycbcr', 'reflect'],
+];
+
+for (const [decomposition, colorSpace, border] of cases) {
+  test(`two complementary weights match the pair blend (${decomposition}, ${colorSpace}, ${border})`, () => {
+    const options = { decomposition, colorSpace, border, chromaLevels: 2, maskSigmas: [0, 1], bandGains: [1.2, 1, 0.8] };
+    const pair = blendImageData(a, b, mask, 3, options).result;
+    const many = blendManyImageData([a, b], [mask, invert(mask)], 3, options).result;
+    const worst = many.data.reduce((m, v, i) => Math.max(m, Math.abs(v - pair.data[i])), 0);
+    assert.ok(worst <= 1, `off by up to ${worst}`);
+  });
+}
+
+test('tiled N-source renders match the untiled blend', () => {
+  // Padding is 44 px here, so the 16 px tiles see only part of the 120 x 90 image
+  const images = [noise(120, 90, 5), noise(120, 90, 6), noise(120, 90, 7)];
+  const weights = [noise(120, 90, 8), noise(120, 90, 9), noise(120, 90, 10)];
+  for (const decomposition of ['laplacian', 'cdf97', 'dog'] as DecompositionName[]) {
+    const options = { decomposition, colorSpace: 'lab' as ColorSpace, chromaLevels: 2, maskSigmas: [0, 1.5] };
+    const whole = blendManyImageData(images, weights, 1, options).result;
+    const tiled = blendManyImageDataTiled(images, weights, 1, { ...options, tileSize: 16 });
+    assert.deepEqual(tiled.data, whole.data, decomposition);
+  }
+});
@@ -0,0 +1,171 @@
+import { RasterImage } from '../types';
+import {
+  bandSteps, BlendOptions, createRaster, FloatImage, maskBorder, maskSoftener, premultiply, PyramidBlendResult,
+  RasterBlendResult, rasterizeResult, StepReporter, unpremultiply
+} from './pyramidCore';
+import { fromColorSpace, hasSeparateChroma, toColorSpace } from './colorSpace';
+import { getDecomposition } from './decompositions';
+
+/**
+ * N-image multi-band blending (panoramas, focus stacks).
+ * Every source has a weight map (mask.r, 0-255); the weights are taken onto the grid of every
+ * band of the chosen decomposition (see decompositions.ts), normalized there to sum to one at
+ * each coefficient, and all bands are mixed. Colour space and chroma depth work as for pairs.
+ */
+
+export type MultiBlendOptions = Pick<
+  BlendOptions, 'border' | 'colorSpace' | 'chromaLevels' | 'decomposition' | 'maskSigmas' | 'bandGains' | 'onProgress'
+>;
+
+// Where all weights vanish the sources are averaged instead
+const WEIGHT_EPSILON = 1e-6;
+
+// One-hot weights from an integer label map: pixel value k (red channel) selects source k
+export const labelMapToWeights = (labels: FloatImage, count: number): FloatImage[] =>
+  Array.from({ length: count }, (_, k) => {
+    const w = new FloatImage(labels.width, labels.height);
+    for (let p = 0; p < w.r.length; p++) {
+      const label = Math.min(count - 1, Math.round(labels.r[p]));
+      w.r[p] = w.g[p] = w.b[p] = label === k ? 255 : 0;
+    }
+    return w;
+  });
+
+// Share of source k in the normalized weights, as a grey mask (0-255) for display
+export const weightShare = (weights: RasterImage[], k: number): RasterImage => {
+  const out = createRaster(weights[k].width, weights[k].height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    let sum = 0;
+    for (const w of weights) sum += w.data[i];
+    const share = sum > WEIGHT_EPSILON ? weights[k].data[i] / sum : 1 / weights.length;
+    out.data[i] = out.data[i + 1] = out.data[i + 2] = share * 255;
+    out.data[i + 3] = 255;
+  }
+  return out;
+};
+
+// Default layout when a source has no weight map: equal vertical strips, left to right
+export const stripeWeight = (width: number, height: number, index: number, count: number): FloatImage => {
+  const w = new FloatImage(width, height);
+  const x0 = Math.round((index * width) / count);
+  const x1 = Math.round(((index + 1) * width) / count);
+  for (let y = 0; y < height; y++) {
+    for (let x = x0; x < x1; x++) {
+      const p = y * width + x;
+      w.r[p] = w.g[p] = w.b[p] = 255;
+    }
+  }
+  return w;
+};
+
+// Mix the bands of every source with their normalized weights and collapse the result.
+// Works in the working colour space with premultiplied alpha, like blendBands.
+const blendSources = (
+  working: FloatImage[],
+  weights: FloatImage[],
+  levels: number,
+  options: MultiBlendOptions,
+  report: StepReporter
+) => {
+  const { border = 'reflect', maskSigmas = [], bandGains = [] } = options;
+  const decomposition = getDecomposition(options.decomposition);
+  const n = working.length;
+
+  // 1. Weights on the grid of every band; one weight map stands for all in the progress
+  const soften = maskSoftener(maskSigmas, border);
+  const W = weights.map((w, k) => decomposition.maskBands(w, levels, maskBorder(border), soften, (level) => {
+    if (k === 0) report('gaussian', level);
+  }));
+
+  // 2. Bands of every source
+  const L = working.map(img => decomposition.analyze(img, levels, border).laplacians);
+  for (let i = 0; i < levels; i++) report('laplacian', i);
+
+  // 3. Normalize the weights per coefficient and mix all bands
+  const L_Out: FloatImage[] = [];
+  const normalized: FloatImage[] = []; // weight of the first source, for inspection
+  for (let i = 0; i <= levels; i++) {
+    const { width, height } = L[0][i];
+    const w = W.map(bands => bands[i].r);
+    const gain = bandGains[i] ?? 1;
+    const out = new FloatImage(width, height);
+    const first = new FloatImage(width, height);
+    const dst = out.channels();
+    const bands = L.map(l => l[i].channels());
+
+    for (let p = 0; p < out.r.length; p++) {
+      let sum = 0;
+      for (let k = 0; k < n; k++) sum += Math.max(0, w[k][p]);
+      for (let c = 0; c < dst.length; c++) {
+        let v = 0;
+        for (let k = 0; k < n; k++) {
+          const wk = sum > WEIGHT_EPSILON ? Math.max(0, w[k][p]) / sum : 1 / n;
+          v += bands[k][c][p] * wk;
+        }
+        // Gains shape the colour bands only; alpha (channel 3) is blended as-is
+        dst[c][p] = c < 3 ? v * gain : v;
+      }
+      const w0 = sum > WEIGHT_EPSILON ? Math.max(0, w[0][p]) / sum : 1 / n;
+      first.r[p] = first.g[p] = first.b[p] = w0 * 255;
+    }
+    L_Out.push(out);
+    normalized.push(first);
+    report('blend', i);
+  }
+
+  // 4. Reconstruct
+  const steps = decomposition.synthesize(L_Out, border, level => report('reconstruct', level));
+  return { bands: L_Out, normalized, steps };
+};
+
+export const blendMany = (
+  images: FloatImage[],
+  weights: FloatImage[],
+  levels: number,
+  options: MultiBlendOptions = {}
+): PyramidBlendResult => {
+  const { colorSpace = 'srgb', chromaLevels = levels, onProgress } = options;
+  const n = images.length;
+  if (n === 0 || weights.length !== n) throw new Error('blendMany needs one weight map per image');
+  // Lab / YCbCr can collapse chroma from a pyramid of a different depth than luminance
+  const splitChroma = hasSeparateChroma(colorSpace) && chromaLevels !== levels;
+
+  const totalSteps = bandSteps(levels) + (splitChroma ? bandSteps(chromaLevels) : 0);
+  let doneSteps = 0;
+  const reporter = (runLevels: number): StepReporter => (stage, level) => {
+    doneSteps++;
+    onProgress?.({ stage, level, levels: runLevels, fraction: doneSteps / totalSteps });
+  };
+
+  const working = images.map(img => premultiply(toColorSpace(img, colorSpace)));
+  const out = blendSources(working, weights, levels, options, reporter(levels));
+  const result = unpremultiply(out.steps[0]);
+  if (splitChroma) {
+    const chroma = unpremultiply(blendSources(working, weights, chromaLevels, options, reporter(chromaLevels)).steps[0]);
+    result.g.set(chroma.g);
+    result.b.set(chroma.b);
+  }
+
+  const toSrgb = (img: FloatImage) => fromColorSpace(unpremultiply(img), colorSpace);
+  return {
+    result: fromColorSpace(result, colorSpace),
+    laplacians: out.bands,
+    gaussiansA: [],
+    gaussiansB: [],
+    gaussiansMask: out.normalized,
+    laplaciansA: [],
+    laplaciansB: [],
+    reconstruction: out.steps.map(toSrgb),
+  };
+};
+
+// RGBA8 in and out, weights as grey masks (see blendImageData)
+export const blendManyImageData = (
+  images: RasterImage[],
+  weights: RasterImage[],
+  levels: number,
+  options: MultiBlendOptions = {}
+): RasterBlendResult => ({
+  ...rasterizeResult(blendMany(images.map(FloatImage.fromImageData), weights.map(FloatImage.fromImageData), levels, options)),
+  decomposition: getDecomposition(options.decomposition).name,
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PhotometricOptions, RasterImage } from '../types';
+import { createRaster, FloatImage } from './pyramidCore';
+import { applyCompensation, fitCompensation } from './photometric';
+
+// Deterministic noise in [40, 200), so a mapped copy stays clear of clipping
+const noise = (width: number, height: number, seed: number): RasterImage => {
+  const out = createRaster(width, height);
+  let s = seed;
+  for (let i = 0; i < out.data.length; i++) {
+    s = (Math.imul(s, 1664525) + 1013904223) >>> 0;
+    out.data[i] = (i & 3) === 3 ? 255 : 40 + (s >>> 24) * 160 / 256;
+  }
+  return out;
+};
+
+const mapped = (img: RasterImage, fn: (v: number, c: number) => number): RasterImage => {
+  const out = createRaster(img.width, img.height);
+  out.data.set(img.data);
+  for (let i = 0; i < out.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) out.data[i + c] = fn(img.data[i + c], c);
+  }
+  return out;
+};
+
+const worstDiff = (x: RasterImage, y: RasterImage) =>
+  x.data.reduce((m, v, i) => Math.max(m, Math.abs(v - y.data[i])), 0);
+
+const fit = (a: RasterImage, b: RasterImage, options: PhotometricOptions) =>
+  fitCompensation(FloatImage.fromImageData(a), FloatImage.fromImageData(b), null, options);
+
+const a = noise(64, 48, 7);
+const GAINS = [1.3, 0.8, 1.1];
+const OFFSETS = [-20, 25, 5];
+
+test('gain mode recovers a known gain and offset and undoes it', () => {
+  const b = mapped(a, (v, c) => v * GAINS[c] + OFFSETS[c]);
+  const result = fit(a, b, { mode: 'gain', region: 'overlap' });
+  for (let c = 0; c < 3; c++) {
+    // B = g A + o, so B maps back onto A with 1 / g and -o / g
+    assert.ok(Math.abs(result.gains[c] - 1 / GAINS[c]) < 0.01, `gain ${c}: ${result.gains[c]}`);
+    assert.ok(Math.abs(result.offsets[c] + OFFSETS[c] / GAINS[c]) < 1, `offset ${c}: ${result.offsets[c]}`);
+  }
+  const worst = worstDiff(applyCompensation(b, result), a);
+  assert.ok(worst <= 1, `off by up to ${worst}`);
+});
+
+test('histogram mode undoes a shift and a tone curve', () => {
+  const shifted = mapped(a, (v, c) => v + OFFSETS[c]);
+  const shift = fit(a, shifted, { mode: 'histogram', region: 'overlap' });
+  assert.ok(shift.lut);
+  const worstShift = worstDiff(applyCompensation(shifted, shift), a);
+  assert.ok(worstShift <= 2, `shift: off by up to ${worstShift}`);
+
+  const curved = mapped(a, v => 255 * (v / 255) ** 0.7);
+  const curve = fit(a, curved, { mode: 'histogram', region: 'overlap' });
+  const worstCurve = worstDiff(applyCompensation(curved, curve), a);
+  assert.ok(worstCurve <= 2, `tone curve: off by up to ${worstCurve}`);
+});
+
+test('no mapping leaves B untouched', () => {
+  const b = mapped(a, (v, c) => v * GAINS[c] + OFFSETS[c]);
+  assert.equal(worstDiff(applyCompensation(b, fit(a, b, { mode: 'none', region: 'overlap' })), b), 0);
+});
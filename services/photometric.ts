@@ -0,0 +1,167 @@
+import { PhotometricOptions, RasterImage } from '../types';
+import { FloatImage } from './pyramidCore';
+
+/**
+ * Photometric compensation: B's colours are mapped onto A's before blending so a global
+ * exposure or white-balance difference does not turn into a gradient across the transition.
+ * Statistics come from pixels both images cover (optionally only the mask's transition band);
+ * the mapping is applied to all of B, per RGB channel. Alpha is left untouched.
+ */
+
+export const DEFAULT_PHOTOMETRIC: PhotometricOptions = { mode: 'none', region: 'overlap' };
+
+// Gains outside this range are almost certainly a bad estimate (e.g. disjoint content)
+const MIN_GAIN = 0.25;
+const MAX_GAIN = 4;
+// Soft band of the mask, for the 'transition' region
+const BAND_LOW = 5;
+const BAND_HIGH = 250;
+// Too few samples to say anything: leave B alone
+const MIN_SAMPLES = 64;
+
+export interface PhotometricResult {
+  mode: PhotometricOptions['mode'];
+  region: PhotometricOptions['region'];
+  samples: number; // pixels the statistics were taken from
+  // Per RGB channel; for histogram matching, the gain/offset with the same mean and spread
+  gains: [number, number, number];
+  offsets: [number, number, number];
+  lut?: number[][]; // histogram matching: 256 entries per channel, B value -> A value
+}
+
+// Pixels where both images have data (and, for 'transition', the mask is neither solid A nor B).
+// A hard mask has no band, so that falls back to the whole overlap.
+export const sampleRegion = (a: FloatImage, b: FloatImage, mask: FloatImage | null, region: PhotometricOptions['region']): Uint8Array => {
+  const n = a.r.length;
+  const overlap = new Uint8Array(n);
+  for (let p = 0; p < n; p++) overlap[p] = a.a[p] > 0 && b.a[p] > 0 ? 1 : 0;
+  if (region === 'overlap' || !mask) return overlap;
+  const band = overlap.map((o, p) => (o && mask.r[p] > BAND_LOW && mask.r[p] < BAND_HIGH ? 1 : 0));
+  return band.reduce((s, v) => s + v, 0) >= MIN_SAMPLES ? band : overlap;
+};
+
+const moments = (plane: Float32Array, region: Uint8Array): { mean: number; std: number; count: number } => {
+  let sum = 0;
+  let sq = 0;
+  let count = 0;
+  for (let p = 0; p < plane.length; p++) {
+    if (!region[p]) continue;
+    sum += plane[p];
+    sq += plane[p] * plane[p];
+    count++;
+  }
+  const mean = count ? sum / count : 0;
+  return { mean, std: count ? Math.sqrt(Math.max(0, sq / count - mean * mean)) : 0, count };
+};
+
+// Gain g and offset o with g * B + o matching A's mean and standard deviation
+const gainOffset = (a: Float32Array, b: Float32Array, region: Uint8Array): [number, number] => {
+  const ma = moments(a, region);
+  const mb = moments(b, region);
+  const gain = mb.std > 1e-3 ? Math.min(MAX_GAIN, Math.max(MIN_GAIN, ma.std / mb.std)) : 1;
+  return [gain, ma.mean - gain * mb.mean];
+};
+
+const cdf = (plane: Float32Array, region: Uint8Array): Float64Array => {
+  const hist = new Float64Array(256);
+  let count = 0;
+  for (let p = 0; p < plane.length; p++) {
+    if (!region[p]) continue;
+    hist[Math.max(0, Math.min(255, Math.round(plane[p])))]++;
+    count++;
+  }
+  for (let v = 1; v < 256; v++) hist[v] += hist[v - 1];
+  return hist.map(c => c / count);
+};
+
+// For each B level, the A level at the same cumulative share (linearly interpolated)
+const matchHistogram = (a: Float32Array, b: Float32Array, region: Uint8Array): number[] => {
+  const ca = cdf(a, region);
+  const cb = cdf(b, region);
+  const lut: number[] = [];
+  let j = 0;
+  for (let v = 0; v < 256; v++) {
+    while (j < 255 && ca[j] < cb[v]) j++;
+    const below = j > 0 ? ca[j - 1] : 0;
+    const t = ca[j] > below ? (cb[v] - below) / (ca[j] - below) : 1;
+    lut.push(Math.max(0, Math.min(255, j - 1 + Math.max(0, Math.min(1, t)))));
+  }
+  return lut;
+};
+
+const applyLut = (plane: Float32Array, lut: number[]): Float32Array =>
+  plane.map(v => {
+    const x = Math.max(0, Math.min(255, v));
+    const i = Math.min(254, Math.floor(x));
+    return lut[i] + (lut[i + 1] - lut[i]) * (x - i);
+  });
+
+// Estimate the mapping of B onto A (identity when there are too few samples)
+export const fitCompensation = (
+  a: FloatImage,
+  b: FloatImage,
+  mask: FloatImage | null,
+  options: PhotometricOptions
+): PhotometricResult => {
+  const region = sampleRegion(a, b, mask, options.region);
+  const samples = region.reduce((s, v) => s + v, 0);
+  const planesA = [a.r, a.g, a.b];
+  const planesB = [b.r, b.g, b.b];
+  const fits = planesB.map((pb, c) => gainOffset(planesA[c], pb, region));
+  const result: PhotometricResult = {
+    mode: options.mode,
+    region: options.region,
+    samples,
+    gains: fits.map(f => f[0]) as [number, number, number],
+    offsets: fits.map(f => f[1]) as [number, number, number],
+  };
+  if (options.mode === 'none' || samples < MIN_SAMPLES) return { ...result, gains: [1, 1, 1], offsets: [0, 0, 0] };
+  if (options.mode === 'histogram') result.lut = planesB.map((pb, c) => matchHistogram(planesA[c], pb, region));
+  return result;
+};
+
+// Apply a fitted mapping to float planes
+const mapPlanes = (b: FloatImage, result: PhotometricResult): FloatImage => {
+  const out = FloatImage.fromPlanes({ ...b, a: b.a.slice() });
+  [out.r, out.g, out.b] = [b.r, b.g, b.b].map((pb, c) => (result.lut
+    ? applyLut(pb, result.lut[c])
+    : pb.map(v => Math.max(0, Math.min(255, v * result.gains[c] + result.offsets[c])))));
+  return out;
+};
+
+export const compensate = (
+  a: FloatImage,
+  b: FloatImage,
+  mask: FloatImage | null,
+  options: PhotometricOptions
+): { image: FloatImage; result: PhotometricResult } => {
+  const result = fitCompensation(a, b, mask, options);
+  return { image: options.mode === 'none' ? b : mapPlanes(b, result), result };
+};
+
+// A fitted mapping on RGBA8, in one pass through a 256-entry table per channel: a mapping fitted
+// on the preview is applied this way to every full-resolution tile
+export const applyCompensation = (img: RasterImage, result: PhotometricResult): RasterImage => {
+  const ramp = new FloatImage(256, 1);
+  ramp.r = ramp.g = ramp.b = Float32Array.from({ length: 256 }, (_, v) => v);
+  const table = mapPlanes(ramp, result);
+  const lut = [table.r, table.g, table.b];
+  const out = { width: img.width, height: img.height, data: new Uint8ClampedArray(img.data) };
+  for (let i = 0; i < out.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) out.data[i + c] = lut[c][img.data[i + c]];
+  }
+  return out;
+};
+
+// RGBA8 in and out (see blendImageData)
+export const compensateImageData = (
+  a: RasterImage,
+  b: RasterImage,
+  mask: RasterImage | null,
+  options: PhotometricOptions
+): { image: RasterImage; result: PhotometricResult } => {
+  const result = fitCompensation(
+    FloatImage.fromImageData(a), FloatImage.fromImageData(b), mask && FloatImage.fromImageData(mask), options
+  );
+  return { image: options.mode === 'none' ? b : applyCompensation(b, result), result };
+};
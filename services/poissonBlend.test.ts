@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BlendProgress, PoissonSolver } from '../types';
+import { FloatImage } from './pyramidCore';
+import { poissonBlend } from './poissonBlend';
+
+const SOLVERS: PoissonSolver[] = ['jacobi', 'gauss-seidel', 'multigrid'];
+
+// Large enough for one coarser multigrid level
+const W = 40;
+const H = 32;
+const image = (fn: (x: number, y: number) => number): FloatImage => {
+  const img = new FloatImage(W, H);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const p = y * W + x;
+      img.r[p] = fn(x, y);
+      img.g[p] = fn(y, x);
+      img.b[p] = 128;
+      img.a[p] = 255;
+    }
+  }
+  return img;
+};
+
+// Smooth but not harmonic, so the solve has something to do
+const a = image((x, y) => 100 + 40 * Math.sin(x / 5) * Math.cos(y / 7));
+const b = image((x, y) => 30 + 3 * x + 2 * y);
+const inRegion = (x: number, y: number) => x >= 8 && x < 32 && y >= 8 && y < 24;
+const mask = image((x, y) => (inRegion(x, y) ? 255 : 0));
+
+const solve = (solver: PoissonSolver, onProgress?: (progress: BlendProgress) => void) =>
+  poissonBlend(a, b, mask, { solver, iterations: 5000, onProgress });
+
+for (const solver of SOLVERS) {
+  test(`${solver}: B outside the mask, A's gradients inside`, () => {
+    const f = solve(solver);
+    let worstResidual = 0;
+    for (let y = 0; y < H; y++) {
+      for (let x = 0; x < W; x++) {
+        const p = y * W + x;
+        if (!inRegion(x, y)) {
+          assert.equal(f.r[p], b.r[p], `(${x}, ${y}) is not B`);
+          continue;
+        }
+        // Discrete Poisson equation: the result's Laplacian is A's
+        for (const plane of ['r', 'g'] as const) {
+          const lap = (img: FloatImage) =>
+            4 * img[plane][p] - img[plane][p - 1] - img[plane][p + 1] - img[plane][p - W] - img[plane][p + W];
+          worstResidual = Math.max(worstResidual, Math.abs(lap(f) - lap(a)));
+        }
+      }
+    }
+    assert.ok(worstResidual < 0.1, `Laplacian off by ${worstResidual}`);
+  });
+
+  test(`${solver}: progress ends at 1 when the solve converges early`, () => {
+    const fractions: number[] = [];
+    solve(solver, ({ fraction }) => fractions.push(fraction));
+    assert.equal(fractions.at(-1), 1);
+    assert.ok(fractions.length < 5000 * 2, 'did not stop early');
+  });
+}
+
+test('all solvers agree', () => {
+  const [first, ...rest] = SOLVERS.map(solver => solve(solver));
+  for (const f of rest) {
+    const worst = f.r.reduce((m, v, p) => Math.max(m, Math.abs(v - first.r[p]), Math.abs(f.g[p] - first.g[p])), 0);
+    assert.ok(worst < 1, `differ by up to ${worst}`);
+  }
+});
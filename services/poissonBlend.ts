@@ -0,0 +1,210 @@
+import { BlendProgress, PoissonConfig, RasterImage } from '../types';
+import { downsampleFloat, FloatImage, upsampleFloat } from './pyramidCore';
+
+/**
+ * Poisson image editing (Pérez et al. 2003) on FloatImage buffers.
+ * Inside the mask region Ω the result f solves Δf = div v with f = B on the boundary,
+ * where v is A's gradient field (normal clone) or, per edge, whichever of A's and B's
+ * gradients is stronger (mixed gradients). Outside Ω the result is B.
+ */
+
+export const DEFAULT_POISSON_CONFIG: PoissonConfig = {
+  variant: 'normal',
+  solver: 'multigrid',
+  iterations: 200,
+};
+
+export interface PoissonOptions extends Partial<PoissonConfig> {
+  onProgress?: (progress: BlendProgress) => void;
+}
+
+// Stop relaxing once no pixel moves by more than this (0-255 scale)
+const TOLERANCE = 0.01;
+// Over-relaxation factor of the sweeps on every multigrid level (plain Gauss–Seidel is 1)
+const SOR_OMEGA = 1.9;
+// Multigrid stops coarsening below this edge length
+const MIN_GRID = 16;
+
+interface PoissonProblem {
+  width: number;
+  height: number;
+  inside: Uint8Array; // 1 for pixels in Ω
+  neighbours: Uint8Array; // in-image 4-neighbour count
+  guidance: Float32Array[]; // per channel: sum over neighbours of v_pq
+  target: Float32Array[]; // B, the fixed boundary / outside values
+}
+
+const NEIGHBOURS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+const setupProblem = (imgA: FloatImage, imgB: FloatImage, mask: FloatImage, variant: PoissonConfig['variant']): PoissonProblem => {
+  const { width, height } = imgB;
+  const n = width * height;
+  const inside = new Uint8Array(n);
+  const neighbours = new Uint8Array(n);
+  for (let p = 0; p < n; p++) inside[p] = mask.r[p] >= 127.5 ? 1 : 0;
+
+  const srcA = imgA.channels();
+  const srcB = imgB.channels();
+  const guidance = srcB.map(() => new Float32Array(n));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      let count = 0;
+      for (const [dx, dy] of NEIGHBOURS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        count++;
+        if (!inside[p]) continue;
+        const q = ny * width + nx;
+        for (let c = 0; c < srcA.length; c++) {
+          const gA = srcA[c][p] - srcA[c][q];
+          if (variant === 'mixed') {
+            const gB = srcB[c][p] - srcB[c][q];
+            guidance[c][p] += Math.abs(gA) > Math.abs(gB) ? gA : gB;
+          } else {
+            guidance[c][p] += gA;
+          }
+        }
+      }
+      neighbours[p] = count;
+    }
+  }
+  return { width, height, inside, neighbours, guidance, target: srcB };
+};
+
+// One relaxation sweep of a single channel; returns the largest change.
+// Jacobi reads from `prev` and writes `next`; Gauss–Seidel passes the same array twice.
+const relax = (problem: PoissonProblem, c: number, prev: Float32Array, next: Float32Array, omega: number): number => {
+  const { width, height, inside, neighbours, guidance } = problem;
+  const g = guidance[c];
+  let maxDelta = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (!inside[p]) continue;
+      let sum = g[p];
+      if (x > 0) sum += prev[p - 1];
+      if (x < width - 1) sum += prev[p + 1];
+      if (y > 0) sum += prev[p - width];
+      if (y < height - 1) sum += prev[p + width];
+      const value = prev[p] + omega * (sum / neighbours[p] - prev[p]);
+      const delta = Math.abs(value - prev[p]);
+      if (delta > maxDelta) maxDelta = delta;
+      next[p] = value;
+    }
+  }
+  return maxDelta;
+};
+
+// Relax every channel of `f` in place for up to `iterations` sweeps: Jacobi, or in-place
+// sweeps with over-relaxation `omega` (1 for Gauss–Seidel, above 1 for SOR)
+const solveOnGrid = (
+  problem: PoissonProblem,
+  f: FloatImage,
+  sweep: 'jacobi' | { omega: number },
+  iterations: number,
+  onSweep: (i: number) => void
+) => {
+  const planes = f.channels();
+  for (let c = 0; c < planes.length; c++) {
+    // Outside Ω the solution is pinned to B
+    for (let p = 0; p < planes[c].length; p++) {
+      if (!problem.inside[p]) planes[c][p] = problem.target[c][p];
+    }
+  }
+  const scratch = sweep === 'jacobi' ? planes.map(pl => pl.slice()) : null;
+  for (let i = 0; i < iterations; i++) {
+    let maxDelta = 0;
+    for (let c = 0; c < planes.length; c++) {
+      if (sweep === 'jacobi') {
+        maxDelta = Math.max(maxDelta, relax(problem, c, planes[c], scratch![c], 1));
+        planes[c].set(scratch![c]);
+      } else {
+        maxDelta = Math.max(maxDelta, relax(problem, c, planes[c], planes[c], sweep.omega));
+      }
+    }
+    onSweep(i);
+    if (maxDelta < TOLERANCE) break;
+  }
+};
+
+// Start from the hard cut-and-paste composite, which already has the right values at ∂Ω
+const initialGuess = (imgA: FloatImage, imgB: FloatImage, mask: FloatImage): FloatImage => {
+  const f = new FloatImage(imgB.width, imgB.height);
+  const [a, b, dst] = [imgA.channels(), imgB.channels(), f.channels()];
+  for (let c = 0; c < dst.length; c++) {
+    for (let p = 0; p < dst[c].length; p++) {
+      dst[c][p] = mask.r[p] >= 127.5 ? a[c][p] : b[c][p];
+    }
+  }
+  return f;
+};
+
+export const poissonBlend = (
+  imgA: FloatImage,
+  imgB: FloatImage,
+  mask: FloatImage,
+  options: PoissonOptions = {}
+): FloatImage => {
+  const { variant, solver, iterations, onProgress } = { ...DEFAULT_POISSON_CONFIG, ...options };
+  // Sweeps stop early once converged; the last report then still has to say done
+  let reported = 0;
+  const report = (level: number, levels: number, fraction: number) => {
+    reported = fraction;
+    onProgress?.({ stage: 'solve', level, levels, fraction });
+  };
+
+  if (solver !== 'multigrid') {
+    const problem = setupProblem(imgA, imgB, mask, variant);
+    const f = initialGuess(imgA, imgB, mask);
+    solveOnGrid(problem, f, solver === 'jacobi' ? 'jacobi' : { omega: 1 }, iterations, (i) =>
+      report(0, 0, (i + 1) / iterations)
+    );
+    if (reported < 1) report(0, 0, 1);
+    return f;
+  }
+
+  // Cascadic multigrid: REDUCE the inputs with the pyramid helpers, solve the coarsest
+  // problem by SOR, then EXPAND each solution as the starting point for the next finer grid.
+  const As = [imgA];
+  const Bs = [imgB];
+  const Ms = [mask];
+  while (Math.min(As[As.length - 1].width, As[As.length - 1].height) / 2 >= MIN_GRID) {
+    As.push(downsampleFloat(As[As.length - 1]));
+    Bs.push(downsampleFloat(Bs[Bs.length - 1]));
+    Ms.push(downsampleFloat(Ms[Ms.length - 1]));
+  }
+  const levels = As.length - 1;
+  const totalSweeps = iterations * As.length;
+
+  let f: FloatImage | null = null;
+  for (let l = levels; l >= 0; l--) {
+    const problem = setupProblem(As[l], Bs[l], Ms[l], variant);
+    const guess: FloatImage = f
+      ? upsampleFloat(f, As[l].width, As[l].height)
+      : initialGuess(As[l], Bs[l], Ms[l]);
+    const done = (levels - l) * iterations;
+    solveOnGrid(problem, guess, { omega: SOR_OMEGA }, iterations, (i) =>
+      report(l, levels, (done + i + 1) / totalSweeps)
+    );
+    f = guess;
+  }
+  if (reported < 1) report(0, levels, 1);
+  return f!;
+};
+
+export const poissonBlendImageData = (
+  a: RasterImage,
+  b: RasterImage,
+  mask: RasterImage,
+  options: PoissonOptions = {}
+): RasterImage => {
+  return poissonBlend(
+    FloatImage.fromImageData(a),
+    FloatImage.fromImageData(b),
+    FloatImage.fromImageData(mask),
+    options
+  ).toImageData();
+};
@@ -0,0 +1,57 @@
+import { FloatImage, ImagePyramid } from './pyramidCore';
+
+/**
+ * Small LRU of image pyramids for repeated blends of the same sources (live previews):
+ * when only the mask, per-level weights or gains change, A and B are not decomposed again.
+ * Keys start with the image size and 64 bits of hash over the input pixels (two independent
+ * 32-bit hashes), so a changed source hitting a stale entry is possible but vanishingly unlikely.
+ */
+
+const DEFAULT_CAPACITY = 4; // two sources at two depths (e.g. a separate chroma pyramid)
+
+const hex = (h: number) => (h >>> 0).toString(16).padStart(8, '0');
+
+// FNV-1a and the MurmurHash3 32-bit mix, side by side over every word of every array
+export const hashWords = (arrays: Uint32Array[]): string => {
+  let fnv = 0x811c9dc5;
+  let murmur = 0x9747b28c;
+  for (const words of arrays) {
+    for (let i = 0; i < words.length; i++) {
+      const w = words[i];
+      fnv = Math.imul(fnv ^ w, 0x01000193);
+      let k = Math.imul(w, 0xcc9e2d51);
+      k = Math.imul((k << 15) | (k >>> 17), 0x1b873593);
+      murmur ^= k;
+      murmur = (Math.imul((murmur << 13) | (murmur >>> 19), 5) + 0xe6546b64) | 0;
+    }
+  }
+  return hex(fnv) + hex(murmur);
+};
+
+// The raw bits of every plane
+const hashPlanes = (img: FloatImage): string =>
+  hashWords(img.channels().map(plane => new Uint32Array(plane.buffer, plane.byteOffset, plane.length)));
+
+export class PyramidCache {
+  private entries = new Map<string, ImagePyramid>();
+
+  constructor(private capacity = DEFAULT_CAPACITY) {}
+
+  imageKey(img: FloatImage): string {
+    return `${img.width}x${img.height}:${hashPlanes(img)}`;
+  }
+
+  get(key: string, build: () => ImagePyramid): ImagePyramid {
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Re-insert so the map's order stays least recently used first
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached;
+    }
+    const pyramid = build();
+    this.entries.set(key, pyramid);
+    while (this.entries.size > this.capacity) this.entries.delete(this.entries.keys().next().value!);
+    return pyramid;
+  }
+}
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BorderMode, ColorSpace, DecompositionName, RasterImage } from '../types';
+import { blendImageData, createRaster } from './pyramidCore';
+
+const BORDERS: BorderMode[] = ['reflect', 'replicate', 'zero'];
+const SPACES: ColorSpace[] = ['srgb', 'linear', 'lab', 'ycbcr'];
+const DECOMPOSITIONS: DecompositionName[] = ['laplacian', 'haar', 'cdf97', 'dog'];
+
+// Deterministic noise, so a failure reproduces
+const noise = (width: number, height: number, seed: number): RasterImage => {
+  const out = createRaster(width, height);
+  let s = seed;
+  for (let i = 0; i < out.data.length; i++) {
+    s = (Math.imul(s, 1664525) + 1013904223) >>> 0;
+    out.data[i] = (i & 3) === 3 ? 255 : s >>> 24;
+  }
+  return out;
+};
+
+const solid = (width: number, height: number, value: number): RasterImage => {
+  const out = createRaster(width, height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    out.data[i] = out.data[i + 1] = out.data[i + 2] = value;
+    out.data[i + 3] = 255;
+  }
+  return out;
+};
+
+// Odd sizes so every level has a ragged edge
+const a = noise(37, 29, 1);
+const b = noise(37, 29, 2);
+const white = solid(37, 29, 255);
+
+for (const border of BORDERS) {
+  for (const decomposition of DECOMPOSITIONS) {
+    test(`an all-white mask gives back A (${decomposition}, ${border} border)`, () => {
+      for (const colorSpace of SPACES) {
+        const out = blendImageData(a, b, white, 4, { border, decomposition, colorSpace, maskSigmas: [0, 1, 2] });
+        const worst = out.result.data.reduce((m, v, i) => Math.max(m, Math.abs(v - a.data[i])), 0);
+        assert.equal(worst, 0, `${colorSpace}: off by up to ${worst}`);
+      }
+    });
+  }
+}
@@ -0,0 +1,586 @@
+import { BlendProgress, BlendStage, BorderMode, DecompositionName, FitMode, ProcessingConfig, PyramidBackendName, RasterImage } from '../types';
+import { fromColorSpace, hasSeparateChroma, toColorSpace } from './colorSpace';
+import type { PyramidCache } from './pyramidCache';
+import type { BlendMetrics } from './metrics';
+import { Decomposition, getDecomposition } from './decompositions';
+
+/**
+ * DOM-free pyramid blending core.
+ * Works on plain {width, height, data} RGBA buffers and Float32 planes only, so it runs
+ * unchanged in the browser main thread, Web Workers and Node (batch scripts, tests).
+ */
+
+export type GradientMaskType = 'horizontal' | 'vertical' | 'radial';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where a srcW x srcH image lands inside a dstW x dstH canvas.
+// cover: fill and crop overflow, contain: fit inside and pad, stretch: ignore aspect ratio.
+export const fitRect = (srcW: number, srcH: number, dstW: number, dstH: number, mode: FitMode): Rect => {
+  if (mode === 'stretch') return { x: 0, y: 0, width: dstW, height: dstH };
+  const scale = mode === 'cover'
+    ? Math.max(dstW / srcW, dstH / srcH)
+    : Math.min(dstW / srcW, dstH / srcH);
+  const width = srcW * scale;
+  const height = srcH * scale;
+  return { x: (dstW - width) / 2, y: (dstH - height) / 2, width, height };
+};
+
+// Allocate an empty RGBA8 buffer (ImageData-shaped, no DOM needed)
+export const createRaster = (width: number, height: number): RasterImage => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4),
+});
+
+// --- Float32 Processing Class ---
+// To do this correctly, we need to work with Float buffers, not just 8-bit pixels.
+
+export class FloatImage {
+  width: number;
+  height: number;
+  r: Float32Array;
+  g: Float32Array;
+  b: Float32Array;
+  a: Float32Array; // 0-255, opaque by default
+
+  constructor(w: number, h: number) {
+    this.width = w;
+    this.height = h;
+    this.r = new Float32Array(w * h);
+    this.g = new Float32Array(w * h);
+    this.b = new Float32Array(w * h);
+    this.a = new Float32Array(w * h).fill(255);
+  }
+
+  // All planes in processing order; alpha is filtered exactly like the colours
+  channels(): Float32Array[] {
+    return [this.r, this.g, this.b, this.a];
+  }
+
+  clone(): FloatImage {
+    return FloatImage.fromPlanes({ width: this.width, height: this.height, r: this.r.slice(), g: this.g.slice(), b: this.b.slice(), a: this.a.slice() });
+  }
+
+  // Rewrap planes that lost their prototype crossing postMessage (no copy)
+  static fromPlanes(p: Pick<FloatImage, 'width' | 'height' | 'r' | 'g' | 'b' | 'a'>): FloatImage {
+    const img = new FloatImage(0, 0);
+    img.width = p.width;
+    img.height = p.height;
+    img.r = p.r;
+    img.g = p.g;
+    img.b = p.b;
+    img.a = p.a;
+    return img;
+  }
+
+  static fromImageData(id: RasterImage): FloatImage {
+    const img = new FloatImage(id.width, id.height);
+    for (let i = 0; i < id.width * id.height; i++) {
+      img.r[i] = id.data[i * 4];
+      img.g[i] = id.data[i * 4 + 1];
+      img.b[i] = id.data[i * 4 + 2];
+      img.a[i] = id.data[i * 4 + 3];
+    }
+    return img;
+  }
+
+  // Quantize to RGBA8, keeping alpha
+  toImageData(): RasterImage {
+    const id = createRaster(this.width, this.height);
+    for (let i = 0; i < this.width * this.height; i++) {
+      id.data[i * 4] = this.r[i];
+      id.data[i * 4 + 1] = this.g[i];
+      id.data[i * 4 + 2] = this.b[i];
+      id.data[i * 4 + 3] = this.a[i];
+    }
+    return id;
+  }
+
+  // Visualizes Laplacian (gray = 0), amplified by `gain`, always opaque
+  toVisualImageData(gain = 1): RasterImage {
+    const id = createRaster(this.width, this.height);
+    for (let i = 0; i < this.width * this.height; i++) {
+      // Offset by 128
+      id.data[i * 4] = this.r[i] * gain + 128;
+      id.data[i * 4 + 1] = this.g[i] * gain + 128;
+      id.data[i * 4 + 2] = this.b[i] * gain + 128;
+      id.data[i * 4 + 3] = 255;
+    }
+    return id;
+  }
+}
+
+// Filtering straight-alpha colours bleeds the (often black) colour of transparent pixels
+// into their neighbours, which shows up as dark fringes. The pyramids are therefore built
+// on premultiplied colour and divided back out after reconstruction.
+export const premultiply = (img: FloatImage): FloatImage => {
+  const out = new FloatImage(img.width, img.height);
+  for (let p = 0; p < img.r.length; p++) {
+    const k = img.a[p] / 255;
+    out.r[p] = img.r[p] * k;
+    out.g[p] = img.g[p] * k;
+    out.b[p] = img.b[p] * k;
+    out.a[p] = img.a[p];
+  }
+  return out;
+};
+
+export const unpremultiply = (img: FloatImage): FloatImage => {
+  const out = new FloatImage(img.width, img.height);
+  for (let p = 0; p < img.r.length; p++) {
+    // Reconstruction can overshoot slightly; clamp alpha before dividing
+    const alpha = Math.min(255, Math.max(0, img.a[p]));
+    const k = alpha > 0 ? 255 / alpha : 0;
+    out.r[p] = img.r[p] * k;
+    out.g[p] = img.g[p] * k;
+    out.b[p] = img.b[p] * k;
+    out.a[p] = alpha;
+  }
+  return out;
+};
+
+// a + sign * b, plane by plane
+export const combine = (a: FloatImage, b: FloatImage, sign: number): FloatImage => {
+  const out = new FloatImage(a.width, a.height);
+  const [pa, pb, dst] = [a.channels(), b.channels(), out.channels()];
+  for (let c = 0; c < dst.length; c++) {
+    for (let p = 0; p < out.r.length; p++) dst[c][p] = pa[c][p] + sign * pb[c][p];
+  }
+  return out;
+};
+
+// --- Burt–Adelson REDUCE / EXPAND ---
+// All filtering happens directly on the Float32 channels so Laplacian levels keep
+// their sign and sub-integer precision, and results do not depend on the browser.
+
+// Separable 5-tap generating kernel [1, 4, 6, 4, 1] / 16 (a = 0.375)
+export const KERNEL = [1 / 16, 4 / 16, 6 / 16, 4 / 16, 1 / 16];
+
+// Map an out-of-range sample index into [0, n), or -1 when it should read as zero.
+const resolveIndex = (i: number, n: number, border: BorderMode): number => {
+  if (i >= 0 && i < n) return i;
+  if (border === 'zero') return -1;
+  if (border === 'replicate' || n === 1) return i < 0 ? 0 : n - 1;
+  // reflect: period is 2n - 2
+  const period = 2 * n - 2;
+  let j = Math.abs(i) % period;
+  if (j >= n) j = period - j;
+  return j;
+};
+
+// Filter a single channel along both axes.
+// `step` is the stride between taps in the source: 2 for REDUCE (filter + decimate), 1 for plain blur.
+// `dilation` spreads the taps apart without decimating (à trous filtering).
+const filterChannel = (
+  src: Float32Array, w: number, h: number,
+  outW: number, outH: number, step: number,
+  kernel: number[], border: BorderMode, dilation = 1
+): Float32Array => {
+  const radius = (kernel.length - 1) >> 1;
+  const tmp = new Float32Array(outW * h);
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    for (let x = 0; x < outW; x++) {
+      let sum = 0;
+      for (let k = 0; k < kernel.length; k++) {
+        const sx = resolveIndex(x * step + (k - radius) * dilation, w, border);
+        if (sx >= 0) sum += kernel[k] * src[row + sx];
+      }
+      tmp[y * outW + x] = sum;
+    }
+  }
+
+  const out = new Float32Array(outW * outH);
+  for (let y = 0; y < outH; y++) {
+    for (let k = 0; k < kernel.length; k++) {
+      const sy = resolveIndex(y * step + (k - radius) * dilation, h, border);
+      if (sy < 0) continue;
+      const wk = kernel[k];
+      const srcRow = sy * outW;
+      const dstRow = y * outW;
+      for (let x = 0; x < outW; x++) {
+        out[dstRow + x] += wk * tmp[srcRow + x];
+      }
+    }
+  }
+  return out;
+};
+
+// EXPAND a single channel: interpolate with the same kernel, only taps that land
+// on coarse samples contribute, scaled by 2 per axis to keep unit DC gain.
+const expandChannel = (
+  src: Float32Array, w: number, h: number,
+  outW: number, outH: number, border: BorderMode
+): Float32Array => {
+  const tmp = new Float32Array(outW * h);
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    for (let x = 0; x < outW; x++) {
+      let sum = 0;
+      // coarse index (x - m) / 2 for m in [-2, 2] with matching parity
+      for (let m = -2 + (x & 1); m <= 2; m += 2) {
+        const sx = resolveIndex((x - m) >> 1, w, border);
+        if (sx >= 0) sum += KERNEL[m + 2] * src[row + sx];
+      }
+      tmp[y * outW + x] = 2 * sum;
+    }
+  }
+
+  const out = new Float32Array(outW * outH);
+  for (let y = 0; y < outH; y++) {
+    const dstRow = y * outW;
+    for (let m = -2 + (y & 1); m <= 2; m += 2) {
+      const sy = resolveIndex((y - m) >> 1, h, border);
+      if (sy < 0) continue;
+      const wk = 2 * KERNEL[m + 2];
+      const srcRow = sy * outW;
+      for (let x = 0; x < outW; x++) {
+        out[dstRow + x] += wk * tmp[srcRow + x];
+      }
+    }
+  }
+  return out;
+};
+
+// Normalized 1D Gaussian taps, radius 3 sigma
+export const gaussianKernel = (sigma: number): number[] => {
+  const radius = Math.max(1, Math.ceil(3 * sigma));
+  const taps: number[] = [];
+  let sum = 0;
+  for (let x = -radius; x <= radius; x++) {
+    const v = Math.exp(-(x * x) / (2 * sigma * sigma));
+    taps.push(v);
+    sum += v;
+  }
+  return taps.map(v => v / sum);
+};
+
+// Separable convolution of every channel at full resolution
+export function convolve(img: FloatImage, kernel: number[] = KERNEL, border: BorderMode = 'reflect', dilation = 1): FloatImage {
+  const out = new FloatImage(img.width, img.height);
+  const src = img.channels();
+  const dst = out.channels();
+  for (let c = 0; c < src.length; c++) {
+    dst[c].set(filterChannel(src[c], img.width, img.height, img.width, img.height, 1, kernel, border, dilation));
+  }
+  return out;
+}
+
+// REDUCE: blur with the 5-tap kernel and keep every second sample.
+// Sizes round up so odd widths/heights keep their last row/column at every level.
+export function downsampleFloat(img: FloatImage, border: BorderMode = 'reflect'): FloatImage {
+  const w = Math.ceil(img.width / 2);
+  const h = Math.ceil(img.height / 2);
+
+  const out = new FloatImage(w, h);
+  const src = img.channels();
+  const dst = out.channels();
+  for (let c = 0; c < src.length; c++) {
+    dst[c].set(filterChannel(src[c], img.width, img.height, w, h, 2, KERNEL, border));
+  }
+  return out;
+}
+
+// EXPAND: interpolate back up to the size of the finer level
+export function upsampleFloat(img: FloatImage, targetW: number, targetH: number, border: BorderMode = 'reflect'): FloatImage {
+  const out = new FloatImage(targetW, targetH);
+  const src = img.channels();
+  const dst = out.channels();
+  for (let c = 0; c < src.length; c++) {
+    dst[c].set(expandChannel(src[c], img.width, img.height, targetW, targetH, border));
+  }
+  return out;
+}
+
+// --- Masks ---
+
+// Linear ramp (45%–55% transition) or radial falloff, written straight into an RGBA buffer.
+// Matches the stops the canvas gradient version used.
+export const createGradientMaskData = (width: number, height: number, type: GradientMaskType = 'horizontal'): RasterImage => {
+  const out = createRaster(width, height);
+  const cx = width / 2;
+  const cy = height / 2;
+  const r0 = width / 8;
+  const r1 = width / 1.5;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let t: number;
+      if (type === 'horizontal') {
+        t = ((x + 0.5) / width - 0.45) / 0.1;
+      } else if (type === 'vertical') {
+        t = ((y + 0.5) / height - 0.45) / 0.1;
+      } else {
+        const d = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+        t = 1 - (d - r0) / (r1 - r0);
+      }
+      const v = Math.min(1, Math.max(0, t)) * 255;
+      const i = (y * width + x) * 4;
+      out.data[i] = out.data[i + 1] = out.data[i + 2] = v;
+      out.data[i + 3] = 255;
+    }
+  }
+  return out;
+};
+
+// Core Math
+export interface BlendOptions extends Omit<ProcessingConfig, 'levels'> {
+  onProgress?: (progress: BlendProgress) => void;
+  // Reuse the A/B pyramids of recently blended images (only the mask side is rebuilt)
+  pyramidCache?: PyramidCache;
+  // Implementation to run on (blendImageData only; default cpuBackend)
+  pyramidBackend?: PyramidBackend;
+}
+
+// Gaussian and Laplacian pyramid of one image, finest first; laplacians[levels] is gaussians[levels].
+// Other decompositions use the same shape: low-pass approximations and the bands they split off.
+export interface ImagePyramid {
+  gaussians: FloatImage[];
+  laplacians: FloatImage[];
+  display?: FloatImage[]; // gaussians back in sRGB for inspection, filled on first use
+}
+
+export const buildPyramid = (img: FloatImage, levels: number, border: BorderMode = 'reflect'): ImagePyramid => {
+  const gaussians = [img];
+  for (let i = 0; i < levels; i++) gaussians.push(downsampleFloat(gaussians[i], border));
+  const laplacians = gaussians.slice(0, levels).map((g, i) => {
+    const up = upsampleFloat(gaussians[i + 1], g.width, g.height, border);
+    const lap = new FloatImage(g.width, g.height);
+    const [src, u, dst] = [g.channels(), up.channels(), lap.channels()];
+    for (let c = 0; c < dst.length; c++) {
+      for (let p = 0; p < lap.r.length; p++) dst[c][p] = src[c][p] - u[c][p];
+    }
+    return lap;
+  });
+  // The top of the pyramid is the same as Gaussian
+  laplacians.push(gaussians[levels]);
+  return { gaussians, laplacians };
+};
+
+// Collapse Laplacian bands from the coarsest up; returns every partial sum, [0] is the image
+export const collapsePyramid = (bands: FloatImage[], border: BorderMode = 'reflect', report?: (level: number) => void): FloatImage[] => {
+  let current = bands[bands.length - 1];
+  const steps: FloatImage[] = [current];
+  for (let i = bands.length - 2; i >= 0; i--) {
+    const up = upsampleFloat(current, bands[i].width, bands[i].height, border);
+    const blended = new FloatImage(bands[i].width, bands[i].height);
+    const [l, u, dst] = [bands[i].channels(), up.channels(), blended.channels()];
+    for (let c = 0; c < dst.length; c++) {
+      for (let p = 0; p < blended.r.length; p++) {
+        dst[c][p] = l[c][p] + u[c][p];
+      }
+    }
+    current = blended;
+    steps.unshift(blended);
+    report?.(i);
+  }
+  return steps;
+};
+
+// Inputs and outputs use straight (non-premultiplied) alpha in sRGB. Every pyramid is
+// finest first; Laplacian lists end with the Gaussian residual at the coarsest level.
+export interface PyramidBlendResult {
+  result: FloatImage;
+  laplacians: FloatImage[]; // blended levels in the working colour space (premultiplied)
+  gaussiansA: FloatImage[];
+  gaussiansB: FloatImage[];
+  gaussiansMask: FloatImage[]; // mask as applied to each band, after any per-level blur
+  laplaciansA: FloatImage[]; // working colour space, premultiplied
+  laplaciansB: FloatImage[];
+  reconstruction: FloatImage[]; // partial collapse at each level; [0] is the result
+}
+
+export type StepReporter = (stage: BlendStage, level: number) => void;
+
+// Border mode for mask and weight pyramids. 'zero' only concerns the image bands: a mask
+// faded towards black at the edges would hand them to B, so an all-white mask would no
+// longer give back A. Masks extend their edge value instead.
+export const maskBorder = (border: BorderMode): BorderMode => (border === 'zero' ? 'replicate' : border);
+
+// Every level of every stage counts as one step: Gaussian and Laplacian builds have
+// `levels` steps, blending touches `levels + 1` bands, reconstruction `levels` expands.
+export const bandSteps = (levels: number): number => 4 * levels + 1;
+
+// Optional extra blur of one band's mask (maskSigmas, in that band's pixels)
+export const maskSoftener = (maskSigmas: number[], border: BorderMode) => (mask: FloatImage, band: number): FloatImage => {
+  const sigma = maskSigmas[band] ?? 0;
+  return sigma > 0 ? convolve(mask, gaussianKernel(sigma), maskBorder(border)) : mask;
+};
+
+// Blend and collapse the pyramids of images already in the working colour space with
+// premultiplied alpha; everything returned stays in that form.
+const blendBands = (
+  pyramidA: ImagePyramid,
+  pyramidB: ImagePyramid,
+  imgMask: FloatImage,
+  levels: number,
+  options: BlendOptions,
+  decomposition: Decomposition,
+  report: StepReporter
+): PyramidBlendResult => {
+  const { border = 'reflect', maskSigmas = [], bandGains = [] } = options;
+  const { gaussians: GA, laplacians: LA } = pyramidA;
+  const { gaussians: GB, laplacians: LB } = pyramidB;
+
+  // 1. Mask (0-255) on the grid of every band, optionally softened further for that band
+  //    only; the pyramids of A and B come prebuilt
+  const soften = maskSoftener(maskSigmas, border);
+  const masks = decomposition.maskBands(imgMask, levels, maskBorder(border), soften, level => report('gaussian', level));
+
+  // 2. Laplacian pyramids are part of the prebuilt A and B pyramids
+  for (let i = 0; i < levels; i++) report('laplacian', i);
+  
+  // 3. Blend Laplacians
+  const L_Out: FloatImage[] = [];
+  for (let i = 0; i <= levels; i++) {
+    const out = new FloatImage(LA[i].width, LA[i].height);
+    const mask = masks[i];
+    const gain = bandGains[i] ?? 1;
+    const [la, lb, dst] = [LA[i].channels(), LB[i].channels(), out.channels()];
+    
+    for (let c = 0; c < dst.length; c++) {
+      // Gains shape the colour bands only; alpha (channel 3) is blended as-is
+      const k = c < 3 ? gain : 1;
+      for (let p = 0; p < out.r.length; p++) {
+        const alpha = mask.r[p] / 255.0; // Normalize mask 0-1
+        dst[c][p] = (la[c][p] * alpha + lb[c][p] * (1 - alpha)) * k;
+      }
+    }
+    L_Out.push(out);
+    report('blend', i);
+  }
+  
+  // 4. Reconstruct
+  const steps = decomposition.synthesize(L_Out, border, level => report('reconstruct', level));
+  
+  return {
+    result: steps[0],
+    laplacians: L_Out,
+    gaussiansA: GA,
+    gaussiansB: GB,
+    gaussiansMask: masks,
+    laplaciansA: LA,
+    laplaciansB: LB,
+    reconstruction: steps,
+  };
+};
+
+export const blendPyramids = (
+  imgA: FloatImage,
+  imgB: FloatImage,
+  imgMask: FloatImage,
+  levels: number,
+  options: BlendOptions = {}
+): PyramidBlendResult => {
+  const { colorSpace = 'srgb', chromaLevels = levels, onProgress } = options;
+  // Lab / YCbCr can collapse chroma from a pyramid of a different depth than luminance
+  const splitChroma = hasSeparateChroma(colorSpace) && chromaLevels !== levels;
+
+  const totalSteps = bandSteps(levels) + (splitChroma ? bandSteps(chromaLevels) : 0);
+  let doneSteps = 0;
+  const reporter = (runLevels: number): StepReporter => (stage, level) => {
+    doneSteps++;
+    onProgress?.({ stage, level, levels: runLevels, fraction: doneSteps / totalSteps });
+  };
+
+  const { border = 'reflect', pyramidCache } = options;
+  const decomposition = getDecomposition(options.decomposition);
+  const working = (img: FloatImage) => premultiply(toColorSpace(img, colorSpace));
+  // Cached pyramids are keyed by the input pixels, so any change to a source is a miss
+  const keyA = pyramidCache?.imageKey(imgA);
+  const keyB = pyramidCache?.imageKey(imgB);
+  const pyramids = (runLevels: number): [ImagePyramid, ImagePyramid] => {
+    const build = (img: FloatImage) => () => decomposition.analyze(working(img), runLevels, border);
+    if (!pyramidCache) return [build(imgA)(), build(imgB)()];
+    const suffix = `${decomposition.name}|${colorSpace}|${border}|${runLevels}`;
+    return [
+      pyramidCache.get(`${keyA}|${suffix}`, build(imgA)),
+      pyramidCache.get(`${keyB}|${suffix}`, build(imgB)),
+    ];
+  };
+  const toSrgb = (img: FloatImage) => fromColorSpace(unpremultiply(img), colorSpace);
+
+  const [pyramidA, pyramidB] = pyramids(levels);
+  const out = blendBands(pyramidA, pyramidB, imgMask, levels, options, decomposition, reporter(levels));
+  const result = unpremultiply(out.result);
+  if (splitChroma) {
+    const chroma = unpremultiply(blendBands(...pyramids(chromaLevels), imgMask, chromaLevels, options, decomposition, reporter(chromaLevels)).result);
+    result.g.set(chroma.g);
+    result.b.set(chroma.b);
+  }
+
+  // Intermediate stages come from the luminance run when chroma was collapsed separately.
+  // Cached bands are copied: the worker transfers (and so detaches) whatever it returns.
+  return {
+    ...out,
+    laplaciansA: pyramidCache ? out.laplaciansA.map(l => l.clone()) : out.laplaciansA,
+    laplaciansB: pyramidCache ? out.laplaciansB.map(l => l.clone()) : out.laplaciansB,
+    result: fromColorSpace(result, colorSpace),
+    gaussiansA: (pyramidA.display ??= pyramidA.gaussians.map(toSrgb)),
+    gaussiansB: (pyramidB.display ??= pyramidB.gaussians.map(toSrgb)),
+    reconstruction: out.reconstruction.map(toSrgb),
+  };
+};
+
+// One implementation of blendPyramids; all of them must match the CPU reference
+export interface PyramidBackend {
+  name: PyramidBackendName;
+  blendPyramids: (imgA: FloatImage, imgB: FloatImage, imgMask: FloatImage, levels: number, options?: BlendOptions) => PyramidBlendResult;
+}
+
+export const cpuBackend: PyramidBackend = { name: 'cpu', blendPyramids };
+
+// Image stages are quantized; Laplacian bands stay float since they are signed
+export interface RasterBlendResult {
+  result: RasterImage;
+  laplacians: FloatImage[];
+  gaussiansA: RasterImage[];
+  gaussiansB: RasterImage[];
+  gaussiansMask: RasterImage[];
+  laplaciansA: FloatImage[];
+  laplaciansB: FloatImage[];
+  reconstruction: RasterImage[];
+  backend?: PyramidBackendName; // pyramid blends: where it actually ran
+  decomposition?: DecompositionName; // pyramid blends: what the bands are (default: laplacian)
+  metrics?: BlendMetrics; // quality report, added by the worker for previews (see metrics.ts)
+}
+
+// Same as blendPyramids but on RGBA8 buffers in and out (ImageData, worker messages, decoded PNGs)
+export const blendImageData = (
+  a: RasterImage,
+  b: RasterImage,
+  mask: RasterImage,
+  levels: number,
+  options: BlendOptions = {}
+): RasterBlendResult => {
+  const { pyramidBackend = cpuBackend, ...blendOptions } = options;
+  const out = pyramidBackend.blendPyramids(
+    FloatImage.fromImageData(a),
+    FloatImage.fromImageData(b),
+    FloatImage.fromImageData(mask),
+    levels,
+    blendOptions
+  );
+  return {
+    ...rasterizeResult(out),
+    backend: pyramidBackend.name,
+    decomposition: getDecomposition(blendOptions.decomposition).name,
+  };
+};
+
+// Quantize every stage of a blend result for display or transfer
+export const rasterizeResult = (out: PyramidBlendResult): RasterBlendResult => ({
+  result: out.result.toImageData(),
+  laplacians: out.laplacians,
+  gaussiansA: out.gaussiansA.map(g => g.toImageData()),
+  gaussiansB: out.gaussiansB.map(g => g.toImageData()),
+  gaussiansMask: out.gaussiansMask.map(g => g.toImageData()),
+  laplaciansA: out.laplaciansA,
+  laplaciansB: out.laplaciansB,
+  reconstruction: out.reconstruction.map(r => r.toImageData()),
+});
\ No newline at end of file
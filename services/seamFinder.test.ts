@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RasterImage } from '../types';
+import { createRaster } from './pyramidCore';
+import { findDpSeam, findGraphCutSeam, findSeam, seamKey } from './seamFinder';
+
+const W = 30;
+const H = 20;
+// Prior: solid A left of BAND_START, solid B from BAND_END, a ramp in between
+const BAND_START = 8;
+const BAND_END = 23;
+
+const grey = (fn: (x: number, y: number) => number): RasterImage => {
+  const out = createRaster(W, H);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const i = (y * W + x) * 4;
+      out.data[i] = out.data[i + 1] = out.data[i + 2] = fn(x, y);
+      out.data[i + 3] = 255;
+    }
+  }
+  return out;
+};
+
+const prior = grey(x =>
+  x < BAND_START ? 255 : x >= BAND_END ? 0 : 250 - (245 * (x - BAND_START + 1)) / (BAND_END - BAND_START + 1)
+);
+const a = grey(() => 100);
+// B only agrees with A where `cheap` says so
+const bWhere = (cheap: (x: number, y: number) => boolean) => grey((x, y) => (cheap(x, y) ? 100 : 180));
+
+const isA = (mask: RasterImage, x: number, y: number) => mask.data[(y * W + x) * 4] === 255;
+
+test('the dp seam follows a zero-cost diagonal path', () => {
+  const path = (y: number) => 10 + Math.floor(y / 2);
+  const { mask, cost } = findDpSeam(a, bWhere((x, y) => x === path(y)), prior, true);
+  assert.equal(cost, 0);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) assert.equal(isA(mask, x, y), x <= path(y), `(${x}, ${y})`);
+  }
+});
+
+test('the graph cut runs between two zero-cost columns', () => {
+  const { mask } = findGraphCutSeam(a, bWhere(x => x === 15 || x === 16), prior);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) assert.equal(isA(mask, x, y), x <= 15, `(${x}, ${y})`);
+  }
+});
+
+// Cheapest path far outside the band: both methods must still keep the prior's solid regions
+for (const method of ['dp', 'graph-cut'] as const) {
+  test(`${method}: the seam stays inside the prior's transition band`, () => {
+    let s = 3;
+    const b = grey(x => {
+      s = (Math.imul(s, 1664525) + 1013904223) >>> 0;
+      return x === 2 || x === 27 ? 100 : 100 + (s >>> 25);
+    });
+    const { mask } = findSeam(a, b, prior, { method, orientation: 'vertical' });
+    for (let y = 0; y < H; y++) {
+      for (let x = 0; x < W; x++) {
+        if (x < BAND_START) assert.ok(isA(mask, x, y), `(${x}, ${y}) left solid A`);
+        if (x >= BAND_END) assert.ok(!isA(mask, x, y), `(${x}, ${y}) left solid B`);
+      }
+    }
+  });
+}
+
+test('graph cuts keep their cache key while the prior keeps its solid regions', () => {
+  const b = bWhere(x => x === 15);
+  const steeper = grey(x => (x < BAND_START ? 255 : x >= BAND_END ? 0 : 128));
+  const cut = { method: 'graph-cut', orientation: 'vertical' } as const;
+  assert.equal(seamKey(a, b, prior, cut), seamKey(a, b, steeper, cut));
+  assert.notEqual(seamKey(a, b, prior, { ...cut, method: 'dp' }), seamKey(a, b, steeper, { ...cut, method: 'dp' }));
+  assert.notEqual(seamKey(a, b, prior, cut), seamKey(a, bWhere(x => x === 16), prior, cut));
+});
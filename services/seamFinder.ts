@@ -0,0 +1,325 @@
+import { RasterImage, SeamOptions } from '../types';
+import { createRaster } from './pyramidCore';
+import { hashWords } from './pyramidCache';
+
+/**
+ * Automatic seams between two aligned images of the same size.
+ * The cost of cutting through a pixel is the colour difference between A and B there.
+ * A prior mask (white = A) bounds the search: its solid regions are kept as they are and the
+ * seam is only placed inside its transition band.
+ *  - dp: one minimal-cost vertical or horizontal path (dynamic programming)
+ *  - graph-cut: minimum cut between the solid A and B regions, any shape (max-flow)
+ */
+
+export const DEFAULT_SEAM_OPTIONS: SeamOptions = {
+  method: 'dp',
+  orientation: 'vertical',
+};
+
+// Prior values at or beyond these count as solid A / solid B
+const SOLID_A = 250;
+const SOLID_B = 5;
+// Keeps zero-difference regions from producing ragged cuts
+const EDGE_EPSILON = 1;
+
+export interface SeamResult {
+  mask: RasterImage; // hard 0/255 mask, white = A
+  cost: number; // summed difference along the seam (dp) or cut capacity (graph-cut)
+}
+
+// Euclidean RGB distance per pixel
+export const differenceMap = (a: RasterImage, b: RasterImage): Float32Array => {
+  const n = a.width * a.height;
+  const d = new Float32Array(n);
+  for (let p = 0; p < n; p++) {
+    const i = p * 4;
+    const dr = a.data[i] - b.data[i];
+    const dg = a.data[i + 1] - b.data[i + 1];
+    const db = a.data[i + 2] - b.data[i + 2];
+    d[p] = Math.sqrt(dr * dr + dg * dg + db * db);
+  }
+  return d;
+};
+
+const maskFromSides = (width: number, height: number, isA: (p: number) => boolean): RasterImage => {
+  const out = createRaster(width, height);
+  for (let p = 0; p < width * height; p++) {
+    const v = isA(p) ? 255 : 0;
+    out.data[p * 4] = out.data[p * 4 + 1] = out.data[p * 4 + 2] = v;
+    out.data[p * 4 + 3] = 255;
+  }
+  return out;
+};
+
+// Seam along rows (vertical) or columns (horizontal); `along` is the path length
+const dpPath = (cost: Float32Array, width: number, height: number, vertical: boolean): { path: Int32Array; total: number } => {
+  const along = vertical ? height : width;
+  const across = vertical ? width : height;
+  const at = (s: number, t: number) => (vertical ? s * width + t : t * width + s); // s: step, t: offset
+  const acc = new Float64Array(width * height);
+  const from = new Int8Array(width * height);
+
+  for (let t = 0; t < across; t++) acc[at(0, t)] = cost[at(0, t)];
+  for (let s = 1; s < along; s++) {
+    for (let t = 0; t < across; t++) {
+      let best = acc[at(s - 1, t)];
+      let move = 0;
+      if (t > 0 && acc[at(s - 1, t - 1)] < best) { best = acc[at(s - 1, t - 1)]; move = -1; }
+      if (t < across - 1 && acc[at(s - 1, t + 1)] < best) { best = acc[at(s - 1, t + 1)]; move = 1; }
+      acc[at(s, t)] = cost[at(s, t)] + best;
+      from[at(s, t)] = move;
+    }
+  }
+
+  let end = 0;
+  for (let t = 1; t < across; t++) if (acc[at(along - 1, t)] < acc[at(along - 1, end)]) end = t;
+  const path = new Int32Array(along);
+  path[along - 1] = end;
+  for (let s = along - 1; s > 0; s--) path[s - 1] = path[s] + from[at(s, path[s])];
+  return { path, total: acc[at(along - 1, end)] };
+};
+
+export const findDpSeam = (a: RasterImage, b: RasterImage, prior: RasterImage, vertical: boolean): SeamResult => {
+  const { width, height } = a;
+  const diff = differenceMap(a, b);
+  // Solid prior pixels are off limits, unless that leaves no path at all
+  const bounded = diff.map((d, p) => (prior.data[p * 4] >= SOLID_A || prior.data[p * 4] <= SOLID_B ? Infinity : d));
+  let { path, total } = dpPath(bounded, width, height, vertical);
+  if (!Number.isFinite(total)) ({ path, total } = dpPath(diff, width, height, vertical));
+
+  // The seam pixel itself goes to the first side; pick which side is A from the prior
+  const firstSide = (p: number) => {
+    const x = p % width;
+    const y = (p - x) / width;
+    return vertical ? x <= path[y] : y <= path[x];
+  };
+  let priorFirst = 0;
+  let priorSecond = 0;
+  for (let p = 0; p < width * height; p++) {
+    if (firstSide(p)) priorFirst += prior.data[p * 4];
+    else priorSecond += prior.data[p * 4];
+  }
+  const firstIsA = priorFirst >= priorSecond;
+  return { mask: maskFromSides(width, height, p => firstSide(p) === firstIsA), cost: total };
+};
+
+// Dinic max-flow over a compact adjacency list; arc e and e ^ 1 are each other's reverse
+class FlowGraph {
+  private head: Int32Array;
+  private next: Int32Array;
+  private to: Int32Array;
+  private cap: Float64Array;
+  private arcs = 0;
+  private level: Int32Array;
+  private iter: Int32Array;
+
+  constructor(private nodes: number, maxEdges: number) {
+    this.head = new Int32Array(nodes).fill(-1);
+    this.next = new Int32Array(maxEdges * 2);
+    this.to = new Int32Array(maxEdges * 2);
+    this.cap = new Float64Array(maxEdges * 2);
+    this.level = new Int32Array(nodes);
+    this.iter = new Int32Array(nodes);
+  }
+
+  private addArc(u: number, v: number, c: number) {
+    const e = this.arcs++;
+    this.to[e] = v;
+    this.cap[e] = c;
+    this.next[e] = this.head[u];
+    this.head[u] = e;
+  }
+
+  addEdge(u: number, v: number, forward: number, backward = 0) {
+    this.addArc(u, v, forward);
+    this.addArc(v, u, backward);
+  }
+
+  private bfs(s: number, t: number): boolean {
+    this.level.fill(-1);
+    const queue = new Int32Array(this.nodes);
+    let qh = 0;
+    let qt = 0;
+    queue[qt++] = s;
+    this.level[s] = 0;
+    while (qh < qt) {
+      const u = queue[qh++];
+      for (let e = this.head[u]; e !== -1; e = this.next[e]) {
+        const v = this.to[e];
+        if (this.cap[e] > 1e-9 && this.level[v] < 0) {
+          this.level[v] = this.level[u] + 1;
+          queue[qt++] = v;
+        }
+      }
+    }
+    return this.level[t] >= 0;
+  }
+
+  // Iterative blocking-flow DFS (grids are too deep for recursion)
+  private augment(s: number, t: number): number {
+    const stack: number[] = [s];
+    const edges: number[] = [];
+    let pushed = 0;
+    while (stack.length) {
+      const u = stack[stack.length - 1];
+      if (u === t) {
+        let f = Infinity;
+        for (const e of edges) f = Math.min(f, this.cap[e]);
+        for (const e of edges) { this.cap[e] -= f; this.cap[e ^ 1] += f; }
+        pushed += f;
+        stack.length = 1;
+        edges.length = 0;
+        continue;
+      }
+      let advanced = false;
+      for (; this.iter[u] !== -1; this.iter[u] = this.next[this.iter[u]]) {
+        const e = this.iter[u];
+        const v = this.to[e];
+        if (this.cap[e] > 1e-9 && this.level[v] === this.level[u] + 1) {
+          stack.push(v);
+          edges.push(e);
+          advanced = true;
+          break;
+        }
+      }
+      if (!advanced) {
+        // Dead end: retreat and skip the edge that led here
+        this.level[u] = -1;
+        stack.pop();
+        const e = edges.pop();
+        if (e !== undefined) {
+          const prev = stack[stack.length - 1];
+          this.iter[prev] = this.next[this.iter[prev]];
+        }
+      }
+    }
+    return pushed;
+  }
+
+  maxFlow(s: number, t: number): number {
+    let flow = 0;
+    while (this.bfs(s, t)) {
+      this.iter.set(this.head);
+      flow += this.augment(s, t);
+    }
+    return flow;
+  }
+
+  // Nodes still reachable from s in the residual graph form the source side of the min cut
+  sourceSide(s: number): Uint8Array {
+    const seen = new Uint8Array(this.nodes);
+    const queue = [s];
+    seen[s] = 1;
+    while (queue.length) {
+      const u = queue.pop()!;
+      for (let e = this.head[u]; e !== -1; e = this.next[e]) {
+        if (this.cap[e] > 1e-9 && !seen[this.to[e]]) {
+          seen[this.to[e]] = 1;
+          queue.push(this.to[e]);
+        }
+      }
+    }
+    return seen;
+  }
+}
+
+// Kwatra et al. (2003): cut cost between neighbours p, q is |A-B|(p) + |A-B|(q)
+export const findGraphCutSeam = (a: RasterImage, b: RasterImage, prior: RasterImage): SeamResult => {
+  const { width, height } = a;
+  const n = width * height;
+  const diff = differenceMap(a, b);
+  const label = new Int8Array(n); // 1: solid A, -1: solid B, 0: free
+  const index = new Int32Array(n).fill(-1);
+  let free = 0;
+  let hasA = false;
+  let hasB = false;
+  for (let p = 0; p < n; p++) {
+    const v = prior.data[p * 4];
+    label[p] = v >= SOLID_A ? 1 : v <= SOLID_B ? -1 : 0;
+    hasA ||= label[p] === 1;
+    hasB ||= label[p] === -1;
+    if (label[p] === 0) index[p] = free++;
+  }
+  // Nothing to cut between: the prior decides alone
+  if (!hasA || !hasB || free === 0) {
+    return { mask: maskFromSides(width, height, p => prior.data[p * 4] >= 128), cost: 0 };
+  }
+
+  const S = free;
+  const T = free + 1;
+  const graph = new FlowGraph(free + 2, 2 * n); // at most one right and one down edge per pixel
+  const link = (p: number, q: number) => {
+    const c = diff[p] + diff[q] + EDGE_EPSILON;
+    const [lp, lq] = [label[p], label[q]];
+    if (lp === 0 && lq === 0) graph.addEdge(index[p], index[q], c, c);
+    else if (lp === 0) graph.addEdge(lq === 1 ? S : index[p], lq === 1 ? index[p] : T, c);
+    else if (lq === 0) graph.addEdge(lp === 1 ? S : index[q], lp === 1 ? index[q] : T, c);
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (x + 1 < width) link(p, p + 1);
+      if (y + 1 < height) link(p, p + width);
+    }
+  }
+
+  const cost = graph.maxFlow(S, T);
+  const side = graph.sourceSide(S);
+  return { mask: maskFromSides(width, height, p => (label[p] === 0 ? side[index[p]] === 1 : label[p] === 1)), cost };
+};
+
+export const findSeam = (a: RasterImage, b: RasterImage, prior: RasterImage, options: SeamOptions): SeamResult =>
+  options.method === 'graph-cut'
+    ? findGraphCutSeam(a, b, prior)
+    : findDpSeam(a, b, prior, options.orientation === 'vertical');
+
+// What a graph cut reads from the prior: solid A (2), solid B (0) or free (1); without both
+// solid regions only which side of 128 each pixel is on
+const priorClasses = (prior: RasterImage): Uint32Array => {
+  const n = prior.width * prior.height;
+  const classes = new Uint32Array(n);
+  let hasA = false;
+  let hasB = false;
+  for (let p = 0; p < n; p++) {
+    const v = prior.data[p * 4];
+    classes[p] = v >= SOLID_A ? 2 : v <= SOLID_B ? 0 : 1;
+    hasA ||= classes[p] === 2;
+    hasB ||= classes[p] === 0;
+  }
+  if (!hasA || !hasB) for (let p = 0; p < n; p++) classes[p] = prior.data[p * 4] >= 128 ? 1 : 0;
+  return classes;
+};
+
+// Cache key of a search: everything it reads, and nothing else. Both methods only see A and B
+// through their difference, and a graph cut only sees the prior's classes, so reshaping the
+// prior's ramp without moving its solid regions keeps the last cut.
+export const seamKey = (a: RasterImage, b: RasterImage, prior: RasterImage, options: SeamOptions): string => {
+  const diff = differenceMap(a, b);
+  const priorWords = options.method === 'graph-cut'
+    ? priorClasses(prior)
+    : new Uint32Array(prior.data.buffer, prior.data.byteOffset, prior.data.length / 4);
+  return JSON.stringify([
+    options.method,
+    options.method === 'dp' ? options.orientation : null,
+    a.width,
+    a.height,
+    hashWords([new Uint32Array(diff.buffer), priorWords]),
+  ]);
+};
+
+// Pixels on the A side that touch the B side, for drawing the seam
+export const seamBoundary = (mask: RasterImage): Uint8Array => {
+  const { width, height, data } = mask;
+  const out = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (data[p * 4] < 128) continue;
+      if ((x > 0 && data[(p - 1) * 4] < 128) || (x + 1 < width && data[(p + 1) * 4] < 128) ||
+          (y > 0 && data[(p - width) * 4] < 128) || (y + 1 < height && data[(p + width) * 4] < 128)) {
+        out[p] = 1;
+      }
+    }
+  }
+  return out;
+};
@@ -0,0 +1,136 @@
+import { BlendSession, BlendSource, ImageSource, SessionSettings } from '../types';
+import { isRemoteSource, reviveSource, sourceFromBlob, sourceFromUrl } from './imageSource';
+
+/**
+ * Session persistence: autosave to IndexedDB (image blobs included), .json project files
+ * with embedded images, and settings-only links in the URL hash.
+ */
+
+const DB_NAME = 'image-blending';
+const STORE = 'sessions';
+const AUTOSAVE_KEY = 'autosave';
+const HASH_PREFIX = '#s=';
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = run(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Version 1 only had the A/B pair
+type LegacySession = Omit<BlendSession, 'version' | 'sources' | 'labelMap'> & { version: 1; imgA: ImageSource; imgB: ImageSource };
+
+const migrate = (stored: BlendSession | LegacySession): BlendSession => {
+  if (stored.version === 2) return stored;
+  const { imgA, imgB, ...rest } = stored;
+  return { ...rest, version: 2, sources: [{ image: imgA, weight: null }, { image: imgB, weight: null }], labelMap: null };
+};
+
+const isSession = (value: unknown): value is BlendSession | LegacySession => {
+  const v = value as { version?: number; settings?: unknown; sources?: unknown; imgA?: unknown; imgB?: unknown } | null;
+  if (!v?.settings) return false;
+  return v.version === 2 ? Array.isArray(v.sources) && v.sources.length >= 2 : v.version === 1 && !!v.imgA && !!v.imgB;
+};
+
+// Apply `fn` to every image a session references
+const mapSources = async (
+  session: BlendSession,
+  fn: (src: ImageSource) => ImageSource | Promise<ImageSource>
+): Promise<BlendSession> => {
+  const map = async (src: ImageSource | null) => (src ? fn(src) : null);
+  const sources: BlendSource[] = [];
+  for (const { image, weight } of session.sources) sources.push({ image: await fn(image), weight: await map(weight) });
+  return {
+    ...session,
+    sources,
+    labelMap: await map(session.labelMap),
+    maskImage: await map(session.maskImage),
+    paintedMask: await map(session.paintedMask),
+  };
+};
+
+// Blobs are stored as-is (IndexedDB clones them); their object URLs are recreated on load
+export const saveAutosave = (session: BlendSession): Promise<IDBValidKey> =>
+  withStore('readwrite', store => store.put(session, AUTOSAVE_KEY));
+
+export const loadAutosave = async (): Promise<BlendSession | null> => {
+  const stored = await withStore<unknown>('readonly', store => store.get(AUTOSAVE_KEY));
+  return isSession(stored) ? mapSources(migrate(stored), reviveSource) : null;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// In a project file every uploaded image travels as a data: URL
+const embedSource = async ({ id, name, url, blob }: ImageSource): Promise<ImageSource> =>
+  ({ id, name, url: blob ? await blobToDataUrl(blob) : url });
+
+const extractSource = async (src: ImageSource): Promise<ImageSource> => {
+  if (!src.url.startsWith('data:')) return sourceFromUrl(src.url, src.name);
+  const blob = await (await fetch(src.url)).blob();
+  return sourceFromBlob(blob, src.name);
+};
+
+export const sessionToJson = async (session: BlendSession): Promise<string> =>
+  JSON.stringify(await mapSources(session, embedSource), null, 2);
+
+export const sessionFromJson = async (text: string): Promise<BlendSession> => {
+  const parsed: unknown = JSON.parse(text);
+  if (!isSession(parsed)) throw new Error('Not a blending session file');
+  const session = await mapSources(migrate(parsed), extractSource);
+  return { ...session, chat: session.chat ?? [] };
+};
+
+// Settings plus the source list as URLs; uploads cannot travel in a link and stay null
+export interface SharedConfig {
+  settings: Partial<SessionSettings>;
+  sources?: (string | null)[];
+}
+
+// base64url over UTF-8 so the hash survives copy/paste untouched
+const toBase64Url = (text: string): string =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+};
+
+export const encodeShareHash = (settings: SessionSettings, sources: BlendSource[]): string => {
+  const shared: SharedConfig = {
+    settings,
+    sources: sources.map(({ image }) => (isRemoteSource(image) ? image.url : null)),
+  };
+  return HASH_PREFIX + toBase64Url(JSON.stringify(shared));
+};
+
+// Returns null for an empty or foreign hash, so a malformed link falls back to the autosave
+export const decodeShareHash = (hash: string): SharedConfig | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    const shared = JSON.parse(fromBase64Url(hash.slice(HASH_PREFIX.length))) as SharedConfig;
+    return shared && typeof shared.settings === 'object' ? shared : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,149 @@
+import { RasterImage } from '../types';
+import { blendImageData, BlendOptions, createRaster, Rect } from './pyramidCore';
+import { blendManyImageData, MultiBlendOptions } from './multiBlend';
+import { applyCompensation, PhotometricResult } from './photometric';
+import { fillUncovered, Homography, warpRaster } from './alignment';
+
+/**
+ * Full-resolution blending in overlapping tiles.
+ * Each tile is blended on its own with enough surrounding context that every pyramid level
+ * sees the same neighbourhood it would in a whole-image run, so only the tile cores are kept
+ * and no seams appear between them. Memory stays bounded by the padded tile size.
+ */
+
+export interface TiledBlendOptions extends BlendOptions {
+  tileSize?: number; // core edge length in pixels before padding (default 1024)
+  // B not yet registered: it is warped into A's frame tile by tile (see regionOfB)
+  homography?: Homography;
+  // Exposure match fitted on the preview, applied to B tile by tile (see regionOfB)
+  compensation?: PhotometricResult;
+}
+
+// Context needed around a tile so REDUCE/EXPAND at every level match the untiled result.
+// Each level's 5-tap filters reach 2 samples, i.e. 2 * 2^l full-res pixels; the chain of
+// REDUCE, EXPAND for the Laplacian and EXPAND for reconstruction stays below 8 * 2^levels.
+// The wavelets (9/7 taps reach 4 samples per level and direction) and the undecimated DoG
+// stack stay within the same bound.
+// Per-level mask blurs reach a further 3 sigma at their level, rounded up to the level grid.
+export const tilePadding = (levels: number, maskSigmas: number[] = []): number => {
+  let extra = 0;
+  maskSigmas.slice(0, levels + 1).forEach((sigma, i) => {
+    if (sigma > 0) extra = Math.max(extra, Math.ceil(3 * sigma) << i);
+  });
+  const align = 1 << levels;
+  return 8 * align + Math.ceil(extra / align) * align;
+};
+
+// Copy a rectangle out of an RGBA buffer
+export const cropRaster = (src: RasterImage, x: number, y: number, w: number, h: number): RasterImage => {
+  const out = createRaster(w, h);
+  for (let row = 0; row < h; row++) {
+    const start = ((y + row) * src.width + x) * 4;
+    out.data.set(src.data.subarray(start, start + w * 4), row * w * 4);
+  }
+  return out;
+};
+
+const cropTo = ({ x, y, width, height }: Rect) => (img: RasterImage): RasterImage => cropRaster(img, x, y, width, height);
+
+// B and the mask over one region of A's frame, with B's exposure matched to A's. With a
+// homography, B is still in its own frame (fitted to A's size) and is warped straight into the
+// region; A takes over wherever warped B has no data. Only region-sized buffers are allocated.
+export const regionOfB = (
+  b: RasterImage, mask: RasterImage, region: Rect,
+  { homography, compensation }: Pick<TiledBlendOptions, 'homography' | 'compensation'>
+): { b: RasterImage; mask: RasterImage } => {
+  const placed = homography ? warpRaster(b, homography, mask.width, mask.height, region) : cropTo(region)(b);
+  const maskRegion = cropTo(region)(mask);
+  return {
+    b: compensation ? applyCompensation(placed, compensation) : placed,
+    mask: homography ? fillUncovered(maskRegion, placed) : maskRegion,
+  };
+};
+
+// Split a width x height render into tiles on the coarsest decimation grid, blend each padded
+// tile with `blendTile` and keep only its core
+const renderTiles = (
+  width: number,
+  height: number,
+  levels: number,
+  options: Pick<TiledBlendOptions, 'tileSize' | 'chromaLevels' | 'maskSigmas' | 'onProgress'>,
+  blendTile: (tile: Rect, onProgress: BlendOptions['onProgress']) => RasterImage
+): RasterImage => {
+  const { tileSize = 1024, onProgress } = options;
+  // A separate chroma pyramid may go deeper than the luminance one
+  const deepest = Math.max(levels, options.chromaLevels ?? levels);
+
+  // Tile origins must sit on the coarsest decimation grid so every level lines up
+  const align = 1 << deepest;
+  const core = Math.max(align, Math.ceil(tileSize / align) * align);
+  const pad = tilePadding(deepest, options.maskSigmas);
+
+  const cols = Math.ceil(width / core);
+  const rows = Math.ceil(height / core);
+  const count = cols * rows;
+  const out = createRaster(width, height);
+
+  for (let ty = 0; ty < rows; ty++) {
+    for (let tx = 0; tx < cols; tx++) {
+      const index = ty * cols + tx;
+      const x0 = tx * core;
+      const y0 = ty * core;
+      const x1 = Math.min(width, x0 + core);
+      const y1 = Math.min(height, y0 + core);
+
+      const px0 = Math.max(0, x0 - pad);
+      const py0 = Math.max(0, y0 - pad);
+      const pw = Math.min(width, x1 + pad) - px0;
+      const ph = Math.min(height, y1 + pad) - py0;
+
+      const tile = blendTile({ x: px0, y: py0, width: pw, height: ph }, onProgress && ((p) => onProgress({
+        ...p,
+        fraction: (index + p.fraction) / count,
+        tile: { index, count },
+      })));
+
+      // Keep only the core of the tile
+      const rowBytes = (x1 - x0) * 4;
+      for (let y = y0; y < y1; y++) {
+        const srcStart = ((y - py0) * pw + (x0 - px0)) * 4;
+        out.data.set(tile.data.subarray(srcStart, srcStart + rowBytes), (y * width + x0) * 4);
+      }
+    }
+  }
+  return out;
+};
+
+export const blendImageDataTiled = (
+  a: RasterImage,
+  b: RasterImage,
+  mask: RasterImage,
+  levels: number,
+  options: TiledBlendOptions = {}
+): RasterImage => {
+  const { tileSize, onProgress, homography, compensation, ...blendOptions } = options;
+  return renderTiles(a.width, a.height, levels, options, (tile, onTileProgress) => {
+    const inputs = regionOfB(b, mask, tile, { homography, compensation });
+    return blendImageData(cropTo(tile)(a), inputs.b, inputs.mask, levels, { ...blendOptions, onProgress: onTileProgress }).result;
+  });
+};
+
+export interface TiledMultiBlendOptions extends MultiBlendOptions {
+  tileSize?: number; // as TiledBlendOptions
+}
+
+// N sources, each with its weight map, cropped tile by tile (see blendManyImageData)
+export const blendManyImageDataTiled = (
+  images: RasterImage[],
+  weights: RasterImage[],
+  levels: number,
+  options: TiledMultiBlendOptions = {}
+): RasterImage => {
+  const { tileSize, onProgress, ...blendOptions } = options;
+  return renderTiles(images[0].width, images[0].height, levels, options, (tile, onTileProgress) => blendManyImageData(
+    images.map(cropTo(tile)),
+    weights.map(cropTo(tile)),
+    levels,
+    { ...blendOptions, onProgress: onTileProgress }
+  ).result);
+};
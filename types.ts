@@ -5,8 +5,68 @@ export interface ImageSource {
   blob?: Blob;
 }
 
+// One entry of the source list; weight maps only matter with three or more sources
+export interface BlendSource {
+  image: ImageSource;
+  weight: ImageSource | null; // grey mask; null falls back to an equal vertical strip
+}
+
+// Plain RGBA8 pixel buffer. ImageData satisfies it, so does anything decoded in Node.
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// How samples outside the image are resolved while filtering.
+// reflect: mirror without repeating the edge (dcb|abcd|cba), replicate: clamp, zero: black.
+export type BorderMode = 'reflect' | 'replicate' | 'zero';
+
+// Multiscale decomposition of pyramid blends: Laplacian pyramid, Haar or CDF 9/7
+// wavelets (Mallat layout, one band per level), or a Difference-of-Gaussians stack at full size
+export type DecompositionName = 'laplacian' | 'haar' | 'cdf97' | 'dog';
+
+// Where pyramid blends run: FloatImage loops, or float textures and shaders (CPU fallback)
+export type PyramidBackendName = 'cpu' | 'webgl2';
+
+// How source B is fitted onto A's canvas when their sizes or aspect ratios differ
+export type FitMode = 'cover' | 'contain' | 'stretch';
+
+// Space the pyramids are built and blended in; results are always converted back to sRGB
+export type ColorSpace = 'srgb' | 'linear' | 'lab' | 'ycbcr';
+
+// pyramid: multi-band (Laplacian pyramid) blending; the rest are reference methods.
+// hard-cut: binary mask composite, feather: one Gaussian-feathered alpha blend,
+// two-band: Brown & Lowe's low-pass blend with a soft mask plus high-pass with a hard mask.
+export type BlendMethod = 'pyramid' | 'poisson' | 'hard-cut' | 'feather' | 'two-band';
+
+// Seamless cloning of A into B inside the mask (white) region.
+// normal: A's gradients only, mixed: the stronger of A's and B's gradient per edge.
+export type PoissonVariant = 'normal' | 'mixed';
+// multigrid relaxes coarse to fine with successive over-relaxation on every grid.
+export type PoissonSolver = 'jacobi' | 'gauss-seidel' | 'multigrid';
+
+export interface PoissonConfig {
+  variant: PoissonVariant;
+  solver: PoissonSolver;
+  iterations: number; // relaxation sweeps (per level for multigrid)
+}
+
 export interface ProcessingConfig {
   levels: number; // Depth of pyramid
+  border?: BorderMode; // Edge handling for REDUCE / EXPAND (default: reflect)
+  // Extra Gaussian blur of the mask at each level, sigma in that level's pixels (index 0 = finest).
+  // Widens the transition of individual frequency bands beyond what the pyramid gives.
+  maskSigmas?: number[];
+  // Gain applied to each blended band (both LA and LB), including the Gaussian base level
+  bandGains?: number[];
+  colorSpace?: ColorSpace; // default: srgb
+  chromaLevels?: number; // Lab / YCbCr only: pyramid depth for the chroma channels (default: levels)
+  method?: BlendMethod; // default: pyramid
+  poisson?: PoissonConfig; // used when method is 'poisson'
+  featherSigma?: number; // feather / two-band: Gaussian sigma in pixels (default: 2% of the longer side)
+  backend?: PyramidBackendName; // pyramid method only (default: cpu)
+  decomposition?: DecompositionName; // pyramid method (default: laplacian)
 }
 
 export interface PyramidLevel {
@@ -15,6 +75,95 @@ export interface PyramidLevel {
   type: 'gaussian' | 'laplacian' | 'reconstructed';
 }
 
+// Every stage of a pyramid blend, ready to display; each list is finest level first
+export interface PyramidStages {
+  gaussiansA: PyramidLevel[];
+  gaussiansB: PyramidLevel[];
+  gaussiansMask: PyramidLevel[];
+  laplaciansA: PyramidLevel[];
+  laplaciansB: PyramidLevel[];
+  laplacians: PyramidLevel[]; // blended
+  reconstruction: PyramidLevel[];
+}
+
+export type MaskShape = 'linear' | 'radial' | 'elliptical' | 'polygon';
+
+// Parametric blend mask. Lengths are fractions of the longer image side so a spec
+// looks the same at preview and full resolution. White (1) selects A, black (0) selects B.
+export interface MaskSpec {
+  type: MaskShape;
+  center: { x: number; y: number }; // 0-1 of width/height; for linear, a point on the seam
+  angle: number; // degrees; linear: direction towards A, elliptical/polygon: rotation
+  transition: number; // width of the soft edge (0 = hard cut)
+  radius: number; // radial/elliptical semi-major axis, polygon circumradius
+  aspect: number; // elliptical minor/major axis ratio
+  sides: number; // polygon side count
+  invert: boolean;
+}
+
+// Which part of an uploaded mask image drives the blend.
+// auto: the alpha channel when the image has any transparency, luminance otherwise.
+export type MaskChannel = 'auto' | 'luminance' | 'alpha';
+
+export interface MaskImageOptions {
+  channel: MaskChannel;
+  threshold: number | null; // 0-255; binarize when set (segmentation masks, clean edges)
+  invert: boolean;
+}
+
+// Where the blend mask comes from: parametric shape, hand-painted, an uploaded image,
+// or a seam found automatically inside the parametric shape's transition band
+export type MaskMode = 'parametric' | 'painted' | 'image' | 'seam';
+
+export type SeamMethod = 'dp' | 'graph-cut';
+export type SeamOrientation = 'vertical' | 'horizontal'; // direction the DP seam runs
+
+export interface SeamOptions {
+  method: SeamMethod;
+  orientation: SeamOrientation;
+}
+
+// How B is registered onto A before blending:
+//  - none: B is only fitted to A's size
+//  - translation: phase correlation
+//  - homography: feature matching + RANSAC
+//  - manual: fitted to control points (1 translation, 2 similarity, 3 affine, 4+ homography)
+export type AlignMode = 'none' | 'translation' | 'homography' | 'manual';
+
+// A point in each image, as 0-1 fractions of width/height (B after fitting to A's size)
+export interface ControlPoint {
+  a: { x: number; y: number };
+  b: { x: number; y: number };
+}
+
+export interface AlignmentOptions {
+  mode: AlignMode;
+  points: ControlPoint[]; // manual mode only
+}
+
+// Exposure / white-balance matching of B to A before blending:
+//  - gain: per-channel gain and offset matching mean and spread
+//  - histogram: per-channel histogram matching
+export type PhotometricMode = 'none' | 'gain' | 'histogram';
+// Pixels the statistics come from: everywhere both images have data, or only the
+// mask's soft transition band (where the two actually meet)
+export type PhotometricRegion = 'overlap' | 'transition';
+
+export interface PhotometricOptions {
+  mode: PhotometricMode;
+  region: PhotometricRegion;
+}
+
+export type BlendStage = 'gaussian' | 'laplacian' | 'blend' | 'reconstruct' | 'solve';
+
+export interface BlendProgress {
+  stage: BlendStage;
+  level: number; // pyramid level the stage just finished
+  levels: number;
+  fraction: number; // overall completion 0-1
+  tile?: { index: number; count: number }; // set for tiled full-resolution renders
+}
+
 export type ProcessingStatus = 'idle' | 'processing' | 'done' | 'error';
 
 export interface ChatMessage {
@@ -22,3 +171,34 @@ export interface ChatMessage {
   text: string;
   timestamp: number;
 }
+
+// Every blend setting the UI exposes; small enough to share in a URL hash
+export interface SessionSettings {
+  depth: number;
+  fitMode: FitMode;
+  maskSigmaCurve: number[];
+  bandGainCurve: number[];
+  colorSpace: ColorSpace;
+  chromaDepth: number | null; // null: same as depth
+  blendMethod: BlendMethod;
+  poissonConfig: PoissonConfig;
+  maskMode: MaskMode;
+  maskSpec: MaskSpec;
+  maskImageOptions: MaskImageOptions;
+  seamOptions: SeamOptions;
+  alignment: AlignmentOptions;
+  photometric: PhotometricOptions;
+  backend: PyramidBackendName;
+  decomposition: DecompositionName;
+}
+
+// A whole project: sources (with their blobs when uploaded), settings and chat history
+export interface BlendSession {
+  version: 2;
+  sources: BlendSource[]; // first two are A and B
+  labelMap: ImageSource | null; // replaces the per-source weights when set
+  maskImage: ImageSource | null;
+  paintedMask: ImageSource | null;
+  settings: SessionSettings;
+  chat: ChatMessage[];
+}